@@ -0,0 +1,129 @@
+// Rotation across several linked OAuth accounts for one provider
+// Accounts are numbered from 1. After a 429 an account cools down for a while and
+// the pool hands out another one; state is in memory and resets on restart.
+
+export type PoolStrategy = "round-robin" | "least-recently-rate-limited";
+
+export const POOL_STRATEGIES: PoolStrategy[] = ["round-robin", "least-recently-rate-limited"];
+
+export type AccountState = {
+  account: number;
+  requests: number;
+  rateLimits: number;
+  lastUsedAt: number | null;
+  lastRateLimitedAt: number | null;
+  cooldownUntil: number | null;
+  lastError?: string;
+};
+
+export type AccountSnapshot = AccountState & {
+  status: "ready" | "cooling_down";
+  cooldownRemainingMs: number;
+};
+
+export type PoolOptions = {
+  /** Log prefix, e.g. "gemini-oauth" */
+  name: string;
+  /** Currently linked account numbers */
+  listAccounts: () => Promise<number[]>;
+  strategy?: PoolStrategy;
+  /** Cooldown after a 429 when the upstream doesn't say how long to wait */
+  cooldownMs?: number;
+};
+
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+/** Parse a strategy name from config, falling back to the default */
+export function parseStrategy(value: string | undefined): PoolStrategy {
+  const v = value?.trim().toLowerCase();
+  return POOL_STRATEGIES.find((s) => s === v) ?? "least-recently-rate-limited";
+}
+
+export function createAccountPool(opts: PoolOptions) {
+  const strategy = opts.strategy ?? "least-recently-rate-limited";
+  const cooldownMs = opts.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  const states = new Map<number, AccountState>();
+  let lastPicked = 0;
+
+  function stateOf(account: number): AccountState {
+    let s = states.get(account);
+    if (!s) {
+      s = { account, requests: 0, rateLimits: 0, lastUsedAt: null, lastRateLimitedAt: null, cooldownUntil: null };
+      states.set(account, s);
+    }
+    return s;
+  }
+
+  const coolingDown = (s: AccountState, now: number) => s.cooldownUntil !== null && s.cooldownUntil > now;
+
+  /**
+   * Next account to use, skipping `exclude` (accounts already tried for this request).
+   * Accounts off cooldown come first; if every account is cooling down, the one that
+   * frees up soonest is returned anyway. Null when no account is left.
+   */
+  async function pick(exclude: Set<number> = new Set(), now = Date.now()): Promise<number | null> {
+    const candidates = [...new Set(await opts.listAccounts())]
+      .filter((a) => !exclude.has(a))
+      .sort((a, b) => a - b)
+      .map(stateOf);
+    if (!candidates.length) return null;
+
+    const ready = candidates.filter((s) => !coolingDown(s, now));
+    let chosen: AccountState;
+    if (!ready.length) {
+      chosen = candidates.reduce((a, b) => (b.cooldownUntil! < a.cooldownUntil! ? b : a));
+    } else if (strategy === "round-robin") {
+      chosen = ready.find((s) => s.account > lastPicked) ?? ready[0];
+    } else {
+      // Never-limited accounts first, then the one limited longest ago; ties go to
+      // the least recently used, so healthy accounts share the load
+      const rank = (s: AccountState) => [s.lastRateLimitedAt ?? -1, s.lastUsedAt ?? -1];
+      chosen = ready.reduce((a, b) => {
+        const [limitedA, usedA] = rank(a);
+        const [limitedB, usedB] = rank(b);
+        return limitedB < limitedA || (limitedB === limitedA && usedB < usedA) ? b : a;
+      });
+    }
+
+    lastPicked = chosen.account;
+    chosen.requests++;
+    chosen.lastUsedAt = now;
+    return chosen.account;
+  }
+
+  /** Put an account on cooldown after a 429 */
+  function markRateLimited(account: number, retryAfterMs?: number | null, message?: string, now = Date.now()) {
+    const s = stateOf(account);
+    const wait = retryAfterMs ?? cooldownMs;
+    s.rateLimits++;
+    s.lastRateLimitedAt = now;
+    s.cooldownUntil = now + wait;
+    if (message) s.lastError = message;
+    console.warn(`[${opts.name}] Account ${account} rate limited, cooling down for ${Math.round(wait / 1000)}s`);
+  }
+
+  /** A request went through: the account is usable again */
+  function markSuccess(account: number) {
+    const s = stateOf(account);
+    s.cooldownUntil = null;
+    delete s.lastError;
+  }
+
+  /** Per-account state for the linked accounts (for status endpoints) */
+  async function status(now = Date.now()): Promise<AccountSnapshot[]> {
+    const accounts = [...new Set(await opts.listAccounts())].sort((a, b) => a - b);
+    return accounts.map((a) => {
+      const s = stateOf(a);
+      const cooling = coolingDown(s, now);
+      return {
+        ...s,
+        status: cooling ? "cooling_down" : "ready",
+        cooldownRemainingMs: cooling ? s.cooldownUntil! - now : 0,
+      };
+    });
+  }
+
+  return { strategy, pick, markRateLimited, markSuccess, status };
+}
+
+export type AccountPool = ReturnType<typeof createAccountPool>;
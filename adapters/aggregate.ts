@@ -0,0 +1,183 @@
+// Aggregation layer for non-streaming (stream:false) requests
+// Every adapter speaks Anthropic SSE, so instead of teaching each one a second
+// output format we feed its stream into an accumulator and build the Message.
+
+import { createParser } from "eventsource-parser";
+import type { EventSourceMessage } from "eventsource-parser";
+import type { FastifyReply } from "fastify";
+import type { AnthropicResponse } from "./types.js";
+
+type StreamError = { type: string; message: string };
+
+/** Rebuilds an Anthropic Message from the events of a streamed response */
+export function createMessageAccumulator() {
+  let message: AnthropicResponse | null = null;
+  let error: StreamError | null = null;
+  const blocks: any[] = [];
+  // Raw input_json_delta fragments, keyed by block index
+  const partialJson: Record<number, string> = {};
+
+  function handle(data: any) {
+    switch (data?.type) {
+      case "message_start":
+        message = { ...data.message, content: [] };
+        break;
+
+      case "content_block_start": {
+        const block = { ...data.content_block };
+        if (block.type === "tool_use" || block.type === "server_tool_use") {
+          partialJson[data.index] = "";
+        }
+        blocks[data.index] = block;
+        break;
+      }
+
+      case "content_block_delta": {
+        const block = blocks[data.index];
+        const delta = data.delta;
+        if (!block || !delta) break;
+        if (delta.type === "text_delta") block.text = (block.text ?? "") + delta.text;
+        else if (delta.type === "thinking_delta") block.thinking = (block.thinking ?? "") + delta.thinking;
+        else if (delta.type === "signature_delta") block.signature = delta.signature;
+        else if (delta.type === "input_json_delta") partialJson[data.index] = (partialJson[data.index] ?? "") + delta.partial_json;
+        else if (delta.type === "citations_delta") (block.citations ??= []).push(delta.citation);
+        break;
+      }
+
+      case "content_block_stop": {
+        const block = blocks[data.index];
+        const json = partialJson[data.index];
+        if (block && json) {
+          try {
+            block.input = JSON.parse(json);
+          } catch {
+            console.warn(`[ccx] Could not parse tool input for block ${data.index}: ${json.slice(0, 200)}`);
+          }
+        }
+        delete partialJson[data.index];
+        break;
+      }
+
+      case "message_delta":
+        if (!message) break;
+        if (data.delta?.stop_reason !== undefined) message.stop_reason = data.delta.stop_reason;
+        if (data.delta?.stop_sequence !== undefined) message.stop_sequence = data.delta.stop_sequence;
+        if (data.usage) message.usage = { ...message.usage, ...data.usage };
+        break;
+
+      case "error":
+        error = {
+          type: data.error?.type || "api_error",
+          message: data.error?.message || "Upstream stream error",
+        };
+        break;
+    }
+  }
+
+  const parser = createParser({
+    onEvent(event: EventSourceMessage) {
+      if (!event.data) return;
+      try {
+        handle(JSON.parse(event.data));
+      } catch {
+        // ignore non-JSON events
+      }
+    },
+  });
+
+  return {
+    /** Feed raw SSE text */
+    feed(text: string) {
+      parser.feed(text);
+    },
+    /** Feed an already-parsed event payload */
+    push(data: unknown) {
+      handle(data);
+    },
+    error(): StreamError | null {
+      return error;
+    },
+    message(): AnthropicResponse | null {
+      if (!message) return null;
+      return { ...message, content: blocks.filter(Boolean) };
+    },
+  };
+}
+
+export type MessageAccumulator = ReturnType<typeof createMessageAccumulator>;
+
+// Anthropic error types → HTTP status, for errors that arrive inside the stream
+const ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  rate_limit_error: 429,
+  overloaded_error: 529,
+};
+
+/**
+ * A stand-in FastifyReply that captures everything an adapter writes to
+ * `res.raw` instead of sending it. Call `finish()` once the adapter returns.
+ */
+export function createCollectingReply() {
+  const accumulator = createMessageAccumulator();
+  const decoder = new TextDecoder();
+
+  const raw = {
+    headersSent: false,
+    setHeader() {},
+    flushHeaders() {},
+    write(chunk: string | Uint8Array) {
+      accumulator.feed(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true }));
+      return true;
+    },
+    end(chunk?: string | Uint8Array) {
+      if (chunk) raw.write(chunk);
+    },
+  };
+
+  return {
+    reply: { raw } as unknown as FastifyReply,
+    accumulator,
+    /** The aggregated Message, or throws if the stream carried an error */
+    finish(): AnthropicResponse {
+      const err = accumulator.error();
+      const message = accumulator.message();
+      if (err || !message) {
+        const e = new Error(err?.message || "Upstream returned an empty stream");
+        // @ts-ignore
+        e.statusCode = ERROR_STATUS[err?.type ?? ""] ?? 502;
+        throw e;
+      }
+      return message;
+    },
+  };
+}
+
+/**
+ * Wrap the client reply so everything written to `res.raw` is still sent, but
+ * also fed into an accumulator (used for the usage ledger on streamed requests).
+ */
+export function createTappedReply(res: FastifyReply) {
+  const accumulator = createMessageAccumulator();
+  const decoder = new TextDecoder();
+
+  const raw = new Proxy(res.raw, {
+    get(target, prop) {
+      if (prop === "write") {
+        return (chunk: string | Uint8Array, ...rest: any[]) => {
+          accumulator.feed(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true }));
+          return (target.write as any)(chunk, ...rest);
+        };
+      }
+      const value = Reflect.get(target, prop, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+
+  return {
+    reply: Object.create(res, { raw: { value: raw } }) as FastifyReply,
+    accumulator,
+  };
+}
@@ -1,27 +1,46 @@
 // Main Fastify server that routes requests by provider prefix
 import Fastify from "fastify";
-import { parseProviderModel, warnIfTools } from "./map.js";
-import type { AnthropicRequest, ProviderModel } from "./types.js";
-import { chatOpenRouter } from "./providers/openrouter.js";
+import type { FastifyReply, FastifyRequest } from "fastify";
+import { parseProviderModel, warnIfTools, REASONING_BUDGETS } from "./map.js";
+import type { AnthropicRequest, ProviderKey, ProviderModel } from "./types.js";
+import { chatOpenRouter, openRouterSupportsImages } from "./providers/openrouter.js";
 import { chatGeminiOAuth } from "./providers/gemini-oauth.js";
 import { chatCodexOAuth } from "./providers/codex-oauth.js";
-import { passThrough } from "./providers/anthropic-pass.js";
-import { preprocessImages } from "./vision-preprocess.js";
+import { passThrough, countTokensPassThrough } from "./providers/anthropic-pass.js";
+import { preprocessImages, hasImageBlocks, resolveVisionTarget, openAICompatibleBackend } from "./vision-preprocess.js";
+import type { VisionBackend } from "./vision-preprocess.js";
+import { preprocessDocuments } from "./documents.js";
+import { countTokens } from "./token-count.js";
+import { createCollectingReply, createTappedReply } from "./aggregate.js";
+import type { MessageAccumulator } from "./aggregate.js";
+import { listModels, getModel, paginateModels } from "./models.js";
+import { fromAnthropicUsage, reportedUsage } from "./usage.js";
+import { estimateCost, formatCost } from "./pricing.js";
+import { checkBudgets, keyIdOf, noteSpend } from "./budgets.js";
+import { applyToolPolicy, createRenamingReply, getToolPolicy } from "./tool-policy.js";
+import { getFallbackChain, shouldFallback } from "./fallback.js";
 import {
   buildLoginUrl,
   handleOAuthCallback,
   getLoginStatus,
+  getGooglePool,
+  getPoolStatus,
   googleLogout,
+  listGoogleAccounts,
   loginPage,
 } from "./google-auth.js";
 import {
   buildCodexLoginUrl,
   handleCodexOAuthCallback,
   getCodexLoginStatus,
+  getCodexPool,
+  getCodexPoolStatus,
   codexLogout,
   codexLoginPage,
+  listCodexAccounts,
 } from "./openai-auth.js";
 import { writePid, registerCleanup } from "../bin/lib/pid-manager.js";
+import { appendUsage, readUsage, summarizeUsage, daysAgo, GROUP_BY } from "../bin/lib/usage-ledger.js";
 import { config } from "dotenv";
 import { join } from "path";
 import { homedir } from "os";
@@ -58,29 +77,63 @@ fastify.get("/_status", async () => {
   return active ?? { provider: "glm", model: "glm-5" };
 });
 
-// ── Google OAuth endpoints ─────────────────────────────────────────────
-
-// Landing page with sign-in button
-fastify.get("/google/login", async (_req, reply) => {
-  reply.type("text/html").send(loginPage(PORT));
+// Model discovery - shortcuts + provider catalog, with availability per provider
+fastify.get("/v1/models", async (req) => {
+  const query = req.query as Record<string, string>;
+  const { data, providers } = await listModels();
+  return {
+    ...paginateModels(data, {
+      limit: query.limit ? Number(query.limit) : undefined,
+      after_id: query.after_id,
+      before_id: query.before_id,
+    }),
+    providers,
+  };
 });
 
-// Start OAuth flow (redirects to Google)
-fastify.get("/google/login/start", async (_req, reply) => {
-  const authUrl = buildLoginUrl(PORT);
-  reply.redirect(authUrl);
+fastify.get("/v1/models/:id", async (req, reply) => {
+  const { id } = req.params as { id: string };
+  const model = await getModel(id);
+  if (!model) {
+    return reply.code(404).send({
+      type: "error",
+      error: { type: "not_found_error", message: `Unknown model: ${id}` },
+    });
+  }
+  return model;
 });
 
-// OAuth callback (receives auth code from Google)
-fastify.get("/google/callback", async (req, reply) => {
+// ── Google OAuth endpoints ─────────────────────────────────────────────
+// Account 1 lives at /google/login; further accounts join the rotation pool
+// at /google/login/2, /google/login/3, ...
+
+/** Account number from a :n route param, or null if it isn't a positive integer */
+function accountParam(req: FastifyRequest): number | null {
+  const n = Number((req.params as { n?: string }).n);
+  return Number.isInteger(n) && n >= 1 ? n : null;
+}
+
+function invalidAccount(reply: FastifyReply) {
+  return reply.code(400).send({
+    type: "error",
+    error: { type: "invalid_request_error", message: "Account must be a positive integer" },
+  });
+}
+
+function googleLoginPath(account: number): string {
+  return account === 1 ? "/google/login" : `/google/login/${account}`;
+}
+
+async function googleCallback(req: FastifyRequest, reply: FastifyReply, account: number) {
   const query = req.query as Record<string, string>;
   const { code, state, error } = query;
+  const loginPath = googleLoginPath(account);
 
   if (error) {
     return reply.type("text/html").code(400).send(
       `<html><body style="font-family:system-ui;text-align:center;padding:60px;background:#0f172a;color:#e2e8f0;">
         <h1 style="color:#f87171;">Login Failed</h1><p>${error}</p>
-        <a href="/google/login" style="color:#60a5fa;">Try again</a>
+        <a href="${loginPath}" style="color:#60a5fa;">Try again</a>
       </body></html>`
     );
   }
@@ -89,21 +142,23 @@ fastify.get("/google/callback", async (req, reply) => {
     return reply.type("text/html").code(400).send(
       `<html><body style="font-family:system-ui;text-align:center;padding:60px;background:#0f172a;color:#e2e8f0;">
         <h1 style="color:#f87171;">Missing Parameters</h1><p>No authorization code received.</p>
-        <a href="/google/login" style="color:#60a5fa;">Try again</a>
+        <a href="${loginPath}" style="color:#60a5fa;">Try again</a>
       </body></html>`
     );
   }
 
   try {
-    const tokens = await handleOAuthCallback(code, state);
+    const tokens = await handleOAuthCallback(code, state, account);
     reply.type("text/html").send(
       `<html><body style="font-family:system-ui;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0f172a;">
         <div style="text-align:center;color:#e2e8f0;max-width:500px;">
           <div style="font-size:48px;">&#10003;</div>
-          <h1 style="color:#4ade80;">Authenticated Successfully</h1>
-          <p>Logged in as: <strong>${tokens.email || "unknown"}</strong></p>
+          <h1 style="color:#4ade80;">${account === 1 ? "Authenticated Successfully" : `Account ${account} Linked`}</h1>
+          <p>${account === 1 ? "Logged in" : `Account ${account} logged in`} as: <strong>${tokens.email || "unknown"}</strong></p>
           ${tokens.project_id ? `<p>Code Assist Project: <code style="background:#1e293b;padding:2px 8px;border-radius:4px;">${tokens.project_id}</code></p>` : `<p style="color:#94a3b8;">Using standard Generative Language API</p>`}
-          <p style="color:#64748b;margin-top:24px;">You can close this window.<br>Use <code style="background:#1e293b;padding:2px 8px;border-radius:4px;">go:gemini-3.1-pro-preview</code> as your model in Claude Code.</p>
+          <p style="color:#64748b;margin-top:24px;">You can close this window.<br>${account === 1
+            ? `Use <code style="background:#1e293b;padding:2px 8px;border-radius:4px;">go:gemini-3.1-pro-preview</code> as your model in Claude Code.`
+            : "Requests now rotate across your linked Google accounts."}</p>
         </div>
       </body></html>`
     );
@@ -111,15 +166,31 @@ fastify.get("/google/callback", async (req, reply) => {
     reply.type("text/html").code(500).send(
       `<html><body style="font-family:system-ui;text-align:center;padding:60px;background:#0f172a;color:#e2e8f0;">
         <h1 style="color:#f87171;">Login Failed</h1><p>${e.message}</p>
-        <a href="/google/login" style="color:#60a5fa;">Try again</a>
+        <a href="${loginPath}" style="color:#60a5fa;">Try again</a>
       </body></html>`
     );
   }
+}
+
+// Landing page with sign-in button
+fastify.get("/google/login", async (_req, reply) => {
+  reply.type("text/html").send(loginPage(PORT));
+});
+
+// Start OAuth flow (redirects to Google)
+fastify.get("/google/login/start", async (_req, reply) => {
+  const authUrl = buildLoginUrl(PORT);
+  reply.redirect(authUrl);
 });
 
-// Login status
+// OAuth callback (receives auth code from Google)
+fastify.get("/google/callback", async (req, reply) => {
+  return googleCallback(req, reply, 1);
+});
+
+// Login status of account 1, plus rotation state of every linked account
 fastify.get("/google/status", async () => {
-  return getLoginStatus();
+  return getPoolStatus();
 });
 
 // Logout
@@ -128,77 +199,41 @@ fastify.post("/google/logout", async () => {
   return { ok: true, message: "Logged out of Google" };
 });
 
-// ── Google Account 2 OAuth endpoints (failover account) ────────────────
-
-// Landing page for account 2
-fastify.get("/google/login/2", async (_req, reply) => {
-  reply.type("text/html").send(loginPage(PORT, 2));
+// Same endpoints for account N
+fastify.get("/google/login/:n", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  reply.type("text/html").send(loginPage(PORT, account));
 });
 
-// Start OAuth flow for account 2
-fastify.get("/google/login/2/start", async (_req, reply) => {
-  const authUrl = buildLoginUrl(PORT, 2);
-  reply.redirect(authUrl);
+fastify.get("/google/login/:n/start", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  reply.redirect(buildLoginUrl(PORT, account));
 });
 
-// OAuth callback for account 2
-fastify.get("/google/callback/2", async (req, reply) => {
-  const query = req.query as Record<string, string>;
-  const { code, state, error } = query;
-
-  if (error) {
-    return reply.type("text/html").code(400).send(
-      `<html><body style="font-family:system-ui;text-align:center;padding:60px;background:#0f172a;color:#e2e8f0;">
-        <h1 style="color:#f87171;">Login Failed</h1><p>${error}</p>
-        <a href="/google/login/2" style="color:#60a5fa;">Try again</a>
-      </body></html>`
-    );
-  }
-
-  if (!code || !state) {
-    return reply.type("text/html").code(400).send(
-      `<html><body style="font-family:system-ui;text-align:center;padding:60px;background:#0f172a;color:#e2e8f0;">
-        <h1 style="color:#f87171;">Missing Parameters</h1><p>No authorization code received.</p>
-        <a href="/google/login/2" style="color:#60a5fa;">Try again</a>
-      </body></html>`
-    );
-  }
-
-  try {
-    const tokens = await handleOAuthCallback(code, state, 2);
-    reply.type("text/html").send(
-      `<html><body style="font-family:system-ui;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0f172a;">
-        <div style="text-align:center;color:#e2e8f0;max-width:500px;">
-          <div style="font-size:48px;">&#10003;</div>
-          <h1 style="color:#4ade80;">Failover Account Linked</h1>
-          <p>Account 2 logged in as: <strong>${tokens.email || "unknown"}</strong></p>
-          ${tokens.project_id ? `<p>Code Assist Project: <code style="background:#1e293b;padding:2px 8px;border-radius:4px;">${tokens.project_id}</code></p>` : `<p style="color:#94a3b8;">Using standard Generative Language API</p>`}
-          <p style="color:#64748b;margin-top:24px;">You can close this window.<br>This account will be used automatically when account 1 hits rate limits.</p>
-        </div>
-      </body></html>`
-    );
-  } catch (e: any) {
-    reply.type("text/html").code(500).send(
-      `<html><body style="font-family:system-ui;text-align:center;padding:60px;background:#0f172a;color:#e2e8f0;">
-        <h1 style="color:#f87171;">Login Failed</h1><p>${e.message}</p>
-        <a href="/google/login/2" style="color:#60a5fa;">Try again</a>
-      </body></html>`
-    );
-  }
+fastify.get("/google/callback/:n", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  return googleCallback(req, reply, account);
 });
 
-// Account 2 login status
-fastify.get("/google/status/2", async () => {
-  return getLoginStatus(2);
+fastify.get("/google/status/:n", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  return getLoginStatus(account);
 });
 
-// Account 2 logout
-fastify.post("/google/logout/2", async () => {
-  await googleLogout(2);
-  return { ok: true, message: "Logged out of Google account 2" };
+fastify.post("/google/logout/:n", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  await googleLogout(account);
+  return { ok: true, message: `Logged out of Google account ${account}` };
 });
 
 // ── OpenAI/Codex OAuth endpoints ──────────────────────────────────────
+// Extra ChatGPT accounts link at /codex/login/2, /codex/login/3, ... All accounts
+// share /codex/callback; the OAuth state tells them apart.
 
 // Landing page with sign-in button
 fastify.get("/codex/login", async (_req, reply) => {
@@ -236,14 +271,17 @@ fastify.get("/codex/callback", async (req, reply) => {
 
   try {
     const tokens = await handleCodexOAuthCallback(code, state);
+    const { account } = tokens;
     reply.type("text/html").send(
       `<html><body style="font-family:system-ui;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0f172a;">
         <div style="text-align:center;color:#e2e8f0;max-width:500px;">
           <div style="font-size:48px;">&#10003;</div>
-          <h1 style="color:#4ade80;">OpenAI Authenticated</h1>
-          <p>Logged in as: <strong>${tokens.email || "unknown"}</strong></p>
+          <h1 style="color:#4ade80;">${account === 1 ? "OpenAI Authenticated" : `Account ${account} Linked`}</h1>
+          <p>${account === 1 ? "Logged in" : `Account ${account} logged in`} as: <strong>${tokens.email || "unknown"}</strong></p>
           <p>Plan: <strong style="color:#a78bfa;">${tokens.plan || "unknown"}</strong></p>
-          <p style="color:#64748b;margin-top:24px;">You can close this window.<br>Use <code style="background:#1e293b;padding:2px 8px;border-radius:4px;">codex</code> as your model in Claude Code.</p>
+          <p style="color:#64748b;margin-top:24px;">You can close this window.<br>${account === 1
+            ? `Use <code style="background:#1e293b;padding:2px 8px;border-radius:4px;">codex</code> as your model in Claude Code.`
+            : "Requests switch to this account when another one hits its usage limit."}</p>
         </div>
       </body></html>`
     );
@@ -257,9 +295,9 @@ fastify.get("/codex/callback", async (req, reply) => {
   }
 });
 
-// Codex login status
+// Login status of account 1, plus rotation state of every linked account
 fastify.get("/codex/status", async () => {
-  return getCodexLoginStatus();
+  return getCodexPoolStatus();
 });
 
 // Codex logout
@@ -268,172 +306,429 @@ fastify.post("/codex/logout", async () => {
   return { ok: true, message: "Logged out of OpenAI" };
 });
 
+// Same endpoints for account N (the callback is shared, see above)
+fastify.get("/codex/login/:n", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  reply.type("text/html").send(codexLoginPage(account));
+});
+
+fastify.get("/codex/login/:n/start", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  reply.redirect(buildCodexLoginUrl(PORT, account));
+});
+
+fastify.get("/codex/status/:n", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  return getCodexLoginStatus(account);
+});
+
+fastify.post("/codex/logout/:n", async (req, reply) => {
+  const account = accountParam(req);
+  if (account === null) return invalidAccount(reply);
+  await codexLogout(account);
+  return { ok: true, message: `Logged out of OpenAI account ${account}` };
+});
+
+// Token counting - Claude Code uses this for context accounting.
+// Anthropic-compatible upstreams count natively; everything else is estimated locally.
+fastify.post("/v1/messages/count_tokens", async (req, res) => {
+  try {
+    const body = req.body as AnthropicRequest;
+    const { provider, model } = parseProviderModel(body.model, active ?? undefined);
+
+    if (provider === "anthropic" || provider === "glm") {
+      const upstream = passThroughUpstream(provider);
+      if (upstream) {
+        const counted = await countTokensPassThrough({ body, model, ...upstream });
+        if (counted !== null) return { input_tokens: counted };
+      }
+    }
+
+    return { input_tokens: countTokens(body, provider) };
+  } catch (e: any) {
+    const msg = e?.message || "count_tokens error";
+    const status = e?.statusCode ?? 400;
+    console.error(`[ccx] COUNT ERROR: ${msg}`);
+    return res.code(status).send({ type: "error", error: { type: e?.errorType ?? errorTypeFor(status), message: msg } });
+  }
+});
+
+// Usage aggregates from the ledger (~/.claude-proxy/usage.jsonl)
+fastify.get("/_usage", async (req, reply) => {
+  const query = req.query as Record<string, string>;
+  const days = Math.max(1, Number(query.days) || 7);
+  const group = query.group || "day";
+  if (!GROUP_BY.includes(group)) {
+    return reply.code(400).send({ error: `Unknown group "${group}". Use one of: ${GROUP_BY.join(", ")}` });
+  }
+  const since = daysAgo(days);
+  const entries = await readUsage({ since });
+  return { since: since.toISOString(), days, group, ...summarizeUsage(entries, group) };
+});
+
 // Main messages endpoint - routes by model prefix
 fastify.post("/v1/messages", async (req, res) => {
+  const body = req.body as AnthropicRequest;
+  // Adapters rewrite body.model / body.stream, so keep what the client asked for
+  const requested: RequestInfo = { requestedModel: body?.model, stream: body?.stream !== false, startedAtMs: Date.now() };
+  let route: ProviderModel | null = null;
+  let tap: { reply: FastifyReply; accumulator: MessageAccumulator } | null = null;
+
   try {
-    const body = req.body as AnthropicRequest;
     const defaults = active ?? undefined;
     const { provider, model, reasoning } = parseProviderModel(body.model, defaults);
+    route = { provider, model, reasoning };
 
     // Log every request for debugging
     const tools = body.tools?.map((t: any) => t.name).join(",") || "none";
     const hasSystem = !!body.system;
     const msgCount = body.messages?.length || 0;
-    console.log(`[ccx] REQUEST: model="${body.model}" → provider="${provider}" model="${model}"${reasoning ? ` reasoning=${reasoning}` : ""} | tools=[${tools}] system=${hasSystem} messages=${msgCount}`);
-
-    // Warn if using tools with providers that may not support them
-    warnIfTools(body, provider);
-
-    // For providers with native web search, strip Claude's WebSearch tool
-    // and inject a system prompt telling the model to use its own search.
-    // Claude Code's WebSearch runs locally and won't work through the proxy.
-    const hasNativeSearch = ["codex-oauth", "openai", "gemini-oauth", "gemini"].includes(provider);
-    if (hasNativeSearch) {
-      // Remove WebSearch / WebFetch tools so the model can't invoke them
-      if (body.tools) {
-        body.tools = body.tools.filter((t: any) => t.name !== "WebSearch" && t.name !== "WebFetch");
-      }
-      // Append instruction to system prompt
-      const searchNote = "\n\nIMPORTANT: You have native server-side web search. Do NOT use the WebSearch or WebFetch tools — they will not work. Instead, use your built-in web search capability when you need to look something up online.";
-      if (Array.isArray(body.system)) {
-        body.system = [...body.system, { type: "text", text: searchNote }];
-      } else if (body.system) {
-        body.system = body.system + searchNote;
-      } else {
-        body.system = searchNote.trim();
-      }
-    }
+    console.log(`[ccx] REQUEST: model="${body.model}" → provider="${provider}" model="${model}"${reasoning ? ` reasoning=${reasoning}` : ""}${body.thinking?.type === "enabled" ? ` thinking=${body.thinking.budget_tokens}` : ""} | tools=[${tools}] system=${hasSystem} messages=${msgCount}`);
 
     // Don't let internal Claude Code requests (haiku for titles, etc.) override the user's active model
     if (provider !== "anthropic") {
       active = { provider, model };
     }
 
-    // Validate API keys BEFORE setting headers
-    if (provider === "openai") {
-      const key = process.env.OPENAI_API_KEY;
-      if (!key) {
-        throw apiError(401, "OPENAI_API_KEY not set in ~/.claude-proxy/.env");
-      }
-      res.raw.setHeader("Content-Type", "text/event-stream");
-      res.raw.setHeader("Cache-Control", "no-cache, no-transform");
-      res.raw.setHeader("Connection", "keep-alive");
-      // @ts-ignore
-      res.raw.flushHeaders?.();
-      return chatCodexOAuth(res, body, model, key, reasoning);
-    }
-
-    if (provider === "openrouter") {
-      const key = process.env.OPENROUTER_API_KEY;
-      if (!key) {
-        throw apiError(401, "OPENROUTER_API_KEY not set in ~/.claude-proxy/.env");
-      }
-      res.raw.setHeader("Content-Type", "text/event-stream");
-      res.raw.setHeader("Cache-Control", "no-cache, no-transform");
-      res.raw.setHeader("Connection", "keep-alive");
-      // @ts-ignore
-      res.raw.flushHeaders?.();
-      return chatOpenRouter(res, body, model, key);
-    }
-
-    if (provider === "gemini-oauth") {
-      res.raw.setHeader("Content-Type", "text/event-stream");
-      res.raw.setHeader("Cache-Control", "no-cache, no-transform");
-      res.raw.setHeader("Connection", "keep-alive");
-      // @ts-ignore
-      res.raw.flushHeaders?.();
-      return chatGeminiOAuth(res, body, model, undefined, reasoning);
+    // Budgets (~/.claude-proxy/budgets.json) - reject or downgrade before anything goes upstream
+    const budget = await checkBudgets(route, requestOrigin(req).keyId);
+    if (budget.action === "reject") {
+      throw apiError(429, budget.message, "rate_limit_error", budget.retryAfterSec);
     }
-
-    if (provider === "codex-oauth") {
-      res.raw.setHeader("Content-Type", "text/event-stream");
-      res.raw.setHeader("Cache-Control", "no-cache, no-transform");
-      res.raw.setHeader("Connection", "keep-alive");
-      // @ts-ignore
-      res.raw.flushHeaders?.();
-      return chatCodexOAuth(res, body, model, undefined, reasoning);
+    if (budget.action === "downgrade") {
+      console.warn(`[ccx] Budget: ${budget.message}`);
+      route = { ...budget.route, reasoning: budget.route.reasoning ?? reasoning };
     }
 
-    if (provider === "gemini") {
-      const key = process.env.GEMINI_API_KEY;
-      if (!key) {
-        throw apiError(401, "GEMINI_API_KEY not set in ~/.claude-proxy/.env");
+    // Fallback chain (~/.claude-proxy/fallbacks.json), walked only while nothing has reached the client
+    const chain = await fallbackChain(route, requested.requestedModel, requestOrigin(req).keyId);
+    const fallbacksConfig = chain.config;
+    const routes = [route, ...chain.fallbacks];
+    // Adapters and vision preprocessing mutate the body, so each attempt gets a fresh copy
+    const original = routes.length > 1 ? structuredClone(body) : body;
+
+    for (let i = 0; i < routes.length; i++) {
+      const attempt = routes[i];
+      const attemptBody = i === 0 ? body : structuredClone(original);
+      if (i > 0) {
+        route = attempt;
+        requested.fallbackFrom = `${routes[0].provider}:${routes[0].model}`;
       }
-      res.raw.setHeader("Content-Type", "text/event-stream");
-      res.raw.setHeader("Cache-Control", "no-cache, no-transform");
-      res.raw.setHeader("Connection", "keep-alive");
-      // @ts-ignore
-      res.raw.flushHeaders?.();
-      return chatGeminiOAuth(res, body, model, key, reasoning);
-    }
+      const toolNames = await prepareForProvider(attemptBody, attempt, requested.requestedModel);
 
-    if (provider === "anthropic") {
-      const base = process.env.ANTHROPIC_UPSTREAM_URL;
-      const key = process.env.ANTHROPIC_API_KEY;
-      if (!base || !key) {
-        throw apiError(
-          500,
-          "ANTHROPIC_UPSTREAM_URL and ANTHROPIC_API_KEY not set in ~/.claude-proxy/.env"
-        );
-      }
-      // Don't set headers here - passThrough will do it after validation
-      return passThrough({
-        res,
-        body,
-        model,
-        baseUrl: base,
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": key,
-          "anthropic-version": process.env.ANTHROPIC_VERSION || "2023-06-01"
+      try {
+        // Models that can't see images get text descriptions instead
+        if (hasImageBlocks(attemptBody) && (await acceptsImages(attempt)) === false) {
+          console.log(`[ccx] ${attempt.provider}:${attempt.model} doesn't accept images, describing them as text`);
+          await preprocessImages(attemptBody, await visionBackend());
         }
-      });
-    }
 
-    // Default: glm (Z.AI)
-    const glmBase = process.env.GLM_UPSTREAM_URL;
-    const glmKey = process.env.ZAI_API_KEY || process.env.GLM_API_KEY;
-    if (!glmBase || !glmKey) {
-      throw apiError(
-        500,
-        "GLM_UPSTREAM_URL and ZAI_API_KEY not set in ~/.claude-proxy/.env. Run: ccx --setup"
-      );
-    }
-    // Convert images to text descriptions since GLM doesn't support vision
-    await preprocessImages(body, process.env.OPENROUTER_API_KEY);
-    // Don't set headers here - passThrough will do it after validation
-    return passThrough({
-      res,
-      body,
-      model,
-      baseUrl: glmBase,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${glmKey}`,
-        "anthropic-version": process.env.ANTHROPIC_VERSION || "2023-06-01"
+        // Non-streaming clients get the translated stream aggregated into one Message
+        if (attemptBody.stream === false) {
+          const collector = createCollectingReply();
+          tap = collector;
+          await dispatch(createRenamingReply(collector.reply, toolNames), attemptBody, attempt);
+          const message = collector.finish();
+          recordUsage(req, requested, attempt, tap, 200);
+          return res.send(message);
+        }
+
+        tap ??= createTappedReply(res);
+        await dispatch(createRenamingReply(tap.reply, toolNames), attemptBody, attempt);
+        recordUsage(req, requested, attempt, tap, 200);
+        return;
+      } catch (e: any) {
+        const next = routes[i + 1];
+        if (!next || res.raw.headersSent || !shouldFallback(e, fallbacksConfig)) throw e;
+        console.warn(`[ccx] FALLBACK: ${attempt.provider}:${attempt.model} failed (${e?.statusCode ?? "network"}: ${String(e?.message).slice(0, 200)}) → trying ${next.provider}:${next.model}`);
       }
-    });
+    }
   } catch (e: any) {
     const status = e?.statusCode ?? 500;
     const msg = e?.message || "proxy error";
     console.error(`[ccx] ERROR: ${msg}`);
+    if (route) recordUsage(req, requested, route, tap, status, msg);
 
     // If SSE headers already sent, we can't send a JSON error - write error as SSE event
     if (res.raw.headersSent) {
       try {
-        res.raw.write(`event: error\ndata: ${JSON.stringify({ type: "error", error: { type: "api_error", message: msg } })}\n\n`);
+        res.raw.write(`event: error\ndata: ${JSON.stringify({ type: "error", error: { type: e?.errorType ?? errorTypeFor(status), message: msg } })}\n\n`);
         res.raw.end();
       } catch { /* stream already closed */ }
       return;
     }
-    return res.code(status).send({ error: msg });
+    if (e?.retryAfterSec) res.header("retry-after", String(e.retryAfterSec));
+    // Anthropic error envelope, so Claude Code shows the message and retries 429/5xx itself
+    return res.code(status).send({ type: "error", error: { type: e?.errorType ?? errorTypeFor(status), message: msg } });
   }
 });
 
-function apiError(status: number, message: string) {
+/** What the client asked for, captured before adapters rewrite the body */
+type RequestInfo = { requestedModel?: string; stream: boolean; startedAtMs: number; fallbackFrom?: string };
+
+/**
+ * Fallback routes for a request. Routes that are over budget are skipped and
+ * budget downgrades are applied, so a fallback can't sidestep budgets.json.
+ */
+async function fallbackChain(route: ProviderModel, requestedModel: string | undefined, keyId: string | undefined) {
+  const { config, fallbacks } = await getFallbackChain(route, requestedModel);
+  const allowed: ProviderModel[] = [];
+  for (const next of fallbacks) {
+    const budget = await checkBudgets(next, keyId);
+    if (budget.action === "allow") allowed.push(next);
+    else if (budget.action === "downgrade") allowed.push({ ...budget.route, reasoning: budget.route.reasoning ?? next.reasoning });
+  }
+  return { config, fallbacks: allowed };
+}
+
+/**
+ * Per-attempt request tweaks: the route's tool policy (tool-policy.json over the
+ * built-in defaults). Returns the tool renames to undo in the response.
+ */
+async function prepareForProvider(body: AnthropicRequest, route: ProviderModel, requestedModel?: string) {
+  // Warn if using tools with providers that may not support them
+  warnIfTools(body, route.provider);
+  return applyToolPolicy(body, await getToolPolicy(route, requestedModel));
+}
+
+/**
+ * Send a request to the resolved provider. Adapters write Anthropic SSE to `res`,
+ * which is either the client connection or a collecting reply (stream:false).
+ */
+async function dispatch(res: FastifyReply, body: AnthropicRequest, { provider, model, reasoning }: ProviderModel) {
+  // Validate API keys BEFORE setting headers.
+  // Headers aren't flushed here: they go out with the first event, so `headersSent`
+  // means content has reached the client and an earlier failure can still fall back.
+  if (provider === "openai") {
+    const key = process.env.OPENAI_API_KEY;
+    if (!key) {
+      throw apiError(401, "OPENAI_API_KEY not set in ~/.claude-proxy/.env");
+    }
+    res.raw.setHeader("Content-Type", "text/event-stream");
+    res.raw.setHeader("Cache-Control", "no-cache, no-transform");
+    res.raw.setHeader("Connection", "keep-alive");
+    return chatCodexOAuth(res, body, model, key, reasoning);
+  }
+
+  if (provider === "openrouter") {
+    const key = process.env.OPENROUTER_API_KEY;
+    if (!key) {
+      throw apiError(401, "OPENROUTER_API_KEY not set in ~/.claude-proxy/.env");
+    }
+    res.raw.setHeader("Content-Type", "text/event-stream");
+    res.raw.setHeader("Cache-Control", "no-cache, no-transform");
+    res.raw.setHeader("Connection", "keep-alive");
+    return chatOpenRouter(res, body, model, key, reasoning);
+  }
+
+  if (provider === "gemini-oauth") {
+    res.raw.setHeader("Content-Type", "text/event-stream");
+    res.raw.setHeader("Cache-Control", "no-cache, no-transform");
+    res.raw.setHeader("Connection", "keep-alive");
+    return chatGeminiOAuth(res, body, model, undefined, reasoning);
+  }
+
+  if (provider === "codex-oauth") {
+    res.raw.setHeader("Content-Type", "text/event-stream");
+    res.raw.setHeader("Cache-Control", "no-cache, no-transform");
+    res.raw.setHeader("Connection", "keep-alive");
+    return chatCodexOAuth(res, body, model, undefined, reasoning);
+  }
+
+  if (provider === "gemini") {
+    const key = process.env.GEMINI_API_KEY;
+    if (!key) {
+      throw apiError(401, "GEMINI_API_KEY not set in ~/.claude-proxy/.env");
+    }
+    res.raw.setHeader("Content-Type", "text/event-stream");
+    res.raw.setHeader("Cache-Control", "no-cache, no-transform");
+    res.raw.setHeader("Connection", "keep-alive");
+    return chatGeminiOAuth(res, body, model, key, reasoning);
+  }
+
+  if (provider === "anthropic") {
+    const upstream = passThroughUpstream("anthropic");
+    if (!upstream) {
+      throw apiError(
+        500,
+        "ANTHROPIC_UPSTREAM_URL and ANTHROPIC_API_KEY not set in ~/.claude-proxy/.env"
+      );
+    }
+    // Don't set headers here - passThrough will do it after validation
+    return passThrough({ res, body, model, provider, ...upstream });
+  }
+
+  // Default: glm (Z.AI)
+  const glmUpstream = passThroughUpstream("glm");
+  if (!glmUpstream) {
+    throw apiError(
+      500,
+      "GLM_UPSTREAM_URL and ZAI_API_KEY not set in ~/.claude-proxy/.env. Run: ccx --setup"
+    );
+  }
+  // GLM takes no files, so documents become their text
+  preprocessDocuments(body);
+  // GLM takes Anthropic-style `thinking`; a model @suffix overrides what the client sent
+  if (reasoning) {
+    body.thinking = { type: "enabled", budget_tokens: REASONING_BUDGETS[reasoning] };
+  }
+  // Don't set headers here - passThrough will do it after validation
+  return passThrough({ res, body, model, provider: "glm", ...glmUpstream });
+}
+
+// ── Vision ───────────────────────────────────────────────────────────
+
+/** Whether a route takes image input: false only when known not to (null = unknown) */
+async function acceptsImages({ provider, model }: ProviderModel): Promise<boolean | null> {
+  if (provider === "glm") return /^glm-[\d.]+v/i.test(model);
+  if (provider === "openrouter") return openRouterSupportsImages(model);
+  return true;
+}
+
+/** The configured vision backend (VISION_MODEL / VISION_BASE_URL), or null if none is set up */
+async function visionBackend(): Promise<VisionBackend | null> {
+  const target = resolveVisionTarget(process.env, (await listGoogleAccounts()).length > 0);
+  if (!target) return null;
+  if (target.kind === "local") return openAICompatibleBackend(target);
+
+  const route = target.route;
+  return {
+    name: `${route.provider}:${route.model}`,
+    // Any provider route works: the image goes through the usual dispatch, collected as one message
+    async describe(source, prompt) {
+      const collector = createCollectingReply();
+      await dispatch(collector.reply, {
+        model: route.model,
+        max_tokens: 1024,
+        stream: false,
+        messages: [{ role: "user", content: [{ type: "text", text: prompt }, { type: "image", source }] }],
+      }, route);
+      const message = collector.finish();
+      return message.content.map((b: any) => (b.type === "text" ? b.text : "")).join("");
+    },
+  };
+}
+
+/** Base URL + auth headers for the Anthropic-compatible upstreams (null if not configured) */
+function passThroughUpstream(provider: "anthropic" | "glm") {
+  const version = process.env.ANTHROPIC_VERSION || "2023-06-01";
+  if (provider === "anthropic") {
+    const base = process.env.ANTHROPIC_UPSTREAM_URL;
+    const key = process.env.ANTHROPIC_API_KEY;
+    if (!base || !key) return null;
+    return {
+      baseUrl: base,
+      headers: { "Content-Type": "application/json", "x-api-key": key, "anthropic-version": version } as Record<string, string>,
+    };
+  }
+  const base = process.env.GLM_UPSTREAM_URL;
+  const key = process.env.ZAI_API_KEY || process.env.GLM_API_KEY;
+  if (!base || !key) return null;
+  return {
+    baseUrl: base,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}`, "anthropic-version": version } as Record<string, string>,
+  };
+}
+
+/**
+ * Log the request cost and append a ledger entry for a /v1/messages call.
+ * Prefers the usage the adapter reported (reasoning tokens, upstream cost) over the
+ * Anthropic usage fields the client saw; ledger failures only log.
+ */
+async function recordUsage(
+  req: FastifyRequest,
+  { requestedModel, stream, startedAtMs, fallbackFrom }: RequestInfo,
+  route: ProviderModel,
+  tap: { reply: FastifyReply; accumulator: MessageAccumulator } | null,
+  httpStatus: number,
+  errorMessage?: string,
+) {
+  try {
+    const latencyMs = Date.now() - startedAtMs;
+    const streamError = tap?.accumulator.error();
+    const ok = httpStatus < 400 && !streamError;
+    const usage = (tap && reportedUsage(tap.reply)) ?? fromAnthropicUsage(tap?.accumulator.message()?.usage);
+    const cost = await estimateCost(route, usage);
+
+    if (ok) {
+      const costText = cost ? `${formatCost(cost.costUsd)} (${cost.source})` : "unknown (no pricing, see ~/.claude-proxy/pricing.json)";
+      console.log(`[ccx] Cost: ${costText} ${route.provider}:${route.model} in=${usage.inputTokens} out=${usage.outputTokens} ${latencyMs}ms`);
+    }
+
+    const entry = {
+      ts: new Date().toISOString(),
+      provider: route.provider,
+      model: route.model,
+      requestedModel,
+      ...(fallbackFrom && { fallbackFrom }),
+      status: ok ? "ok" : "error",
+      httpStatus,
+      ...(!ok && { error: (errorMessage || streamError?.message || "").slice(0, 300) }),
+      stream,
+      latencyMs,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheReadTokens: usage.cacheReadTokens,
+      cacheWriteTokens: usage.cacheWriteTokens,
+      reasoningTokens: usage.reasoningTokens,
+      ...(cost && { costUsd: cost.costUsd, costSource: cost.source }),
+      ...requestOrigin(req),
+    };
+    await appendUsage(entry);
+    noteSpend(entry);
+  } catch (e: any) {
+    console.warn(`[ccx] Could not write usage ledger: ${e.message}`);
+  }
+}
+
+/** Working directory (sent by proxy-launcher), Claude Code session id and client key id, when known */
+function requestOrigin(req: FastifyRequest) {
+  const header = (name: string) => {
+    const v = req.headers[name];
+    return Array.isArray(v) ? v[0] : v;
+  };
+
+  let cwd: string | undefined;
+  const rawCwd = header("x-ccx-cwd");
+  if (rawCwd) {
+    try { cwd = decodeURIComponent(rawCwd); } catch { cwd = rawCwd; }
+  }
+
+  // Claude Code puts "..._session_<uuid>" in metadata.user_id
+  const userId = (req.body as any)?.metadata?.user_id;
+  const session = header("x-claude-code-session-id")
+    || (typeof userId === "string" ? userId.match(/_session_([\w-]+)/)?.[1] : undefined);
+
+  // Which client key made the call (hashed), for per-key budgets
+  const auth = header("x-api-key") || header("authorization")?.replace(/^Bearer\s+/i, "");
+  const keyId = auth ? keyIdOf(auth) : undefined;
+
+  return { cwd, session, keyId };
+}
+
+/** Anthropic error type for an HTTP status */
+function errorTypeFor(status: number) {
+  if (status === 400) return "invalid_request_error";
+  if (status === 401) return "authentication_error";
+  if (status === 403) return "permission_error";
+  if (status === 404) return "not_found_error";
+  if (status === 413) return "request_too_large";
+  if (status === 429) return "rate_limit_error";
+  if (status === 529 || status === 503) return "overloaded_error";
+  return "api_error";
+}
+
+function apiError(status: number, message: string, errorType?: string, retryAfterSec?: number) {
   const e = new Error(message);
   // @ts-ignore
   e.statusCode = status;
+  // @ts-ignore
+  if (errorType) e.errorType = errorType;
+  // @ts-ignore
+  if (retryAfterSec) e.retryAfterSec = retryAfterSec;
   return e;
 }
 
@@ -450,29 +745,40 @@ fastify
       console.log(`[ccx] Default provider: ${active.provider}:${active.model}`);
     }
 
-    // Show Google login status (account 1)
-    const gStatus = await getLoginStatus();
-    if (gStatus.loggedIn) {
-      console.log(`[ccx] Google acct1: logged in as ${gStatus.email || "unknown"} (${gStatus.mode})`);
-    } else {
+    // Show Google login status for every linked account
+    const gAccounts = await listGoogleAccounts();
+    if (!gAccounts.includes(1)) {
       console.log(`[ccx] Google acct1: not logged in. Visit http://127.0.0.1:${PORT}/google/login to authenticate`);
     }
-
-    // Show Google account 2 status (failover account)
-    const g2Status = await getLoginStatus(2);
-    if (g2Status.loggedIn) {
-      console.log(`[ccx] Google acct2: logged in as ${g2Status.email || "unknown"} (${g2Status.mode})`);
-    } else {
-      console.log(`[ccx] Google acct2: not linked. Visit http://127.0.0.1:${PORT}/google/login/2 to add failover account`);
+    for (const n of gAccounts) {
+      const gStatus = await getLoginStatus(n);
+      if (gStatus.loggedIn) {
+        console.log(`[ccx] Google acct${n}: logged in as ${gStatus.email || "unknown"} (${gStatus.mode})`);
+      } else {
+        console.log(`[ccx] Google acct${n}: invalid credentials. Visit http://127.0.0.1:${PORT}${googleLoginPath(n)} to re-authenticate`);
+      }
+    }
+    if (gAccounts.length) {
+      const next = Math.max(...gAccounts) + 1;
+      console.log(`[ccx] Google: ${gAccounts.length} account(s) in rotation (${getGooglePool().strategy}). Link another at http://127.0.0.1:${PORT}/google/login/${next}`);
     }
 
-    // Show Codex/OpenAI login status
-    const cStatus = await getCodexLoginStatus();
-    if (cStatus.loggedIn) {
-      console.log(`[ccx] OpenAI: logged in as ${cStatus.email || "unknown"} (${cStatus.plan || "unknown"}) via ${cStatus.source}`);
-    } else {
+    // Show Codex/OpenAI login status for every linked account
+    const cAccounts = await listCodexAccounts();
+    if (!cAccounts.includes(1)) {
       console.log(`[ccx] OpenAI: not logged in. Visit http://127.0.0.1:${PORT}/codex/login or use Codex CLI`);
     }
+    for (const n of cAccounts) {
+      const cStatus = await getCodexLoginStatus(n);
+      if (cStatus.loggedIn) {
+        console.log(`[ccx] OpenAI acct${n}: logged in as ${cStatus.email || "unknown"} (${cStatus.plan || "unknown"}) via ${cStatus.source}`);
+      } else {
+        console.log(`[ccx] OpenAI acct${n}: invalid credentials. Visit http://127.0.0.1:${PORT}${n === 1 ? "/codex/login" : `/codex/login/${n}`} to re-authenticate`);
+      }
+    }
+    if (cAccounts.length > 1) {
+      console.log(`[ccx] OpenAI: ${cAccounts.length} accounts in rotation (${getCodexPool().strategy})`);
+    }
   })
   .catch((err) => {
     console.error("[ccx] Failed to start proxy:", err.message);
@@ -0,0 +1,197 @@
+// Spending / token budgets from ~/.claude-proxy/budgets.json, checked before dispatch
+// Budgets are scoped to a provider and/or a client API key (or everything), per day
+// or month. Spend comes from the usage ledger and is kept in memory between requests.
+
+import { createHash } from "crypto";
+import { loadConfigFile } from "./config.js";
+import { parseProviderModel } from "./map.js";
+import { formatCost } from "./pricing.js";
+import { readUsage, periodStart } from "../bin/lib/usage-ledger.js";
+import type { ProviderKey, ProviderModel } from "./types.js";
+
+export type Budget = {
+  /** Label for logs and errors (defaults to scope + period) */
+  name?: string;
+  /** Only count / limit requests to this provider */
+  provider?: ProviderKey;
+  /** Only count / limit requests made with this client key (x-api-key or Bearer token) */
+  apiKey?: string;
+  period: "day" | "month";
+  maxCostUsd?: number;
+  /** Input + output tokens */
+  maxTokens?: number;
+  /** What to do once the budget is used up (default: reject) */
+  onExceed?: "reject" | "downgrade";
+  /** Model to route to instead when onExceed is "downgrade", e.g. "openrouter:minimax/minimax-m2.5" */
+  downgradeTo?: string;
+  /** Fractions of the limit that log a warning (overrides the top-level warnAt) */
+  warnAt?: number[];
+};
+
+export type BudgetConfig = {
+  warnAt?: number[];
+  budgets?: Budget[];
+};
+
+/** The slice of a ledger entry budgets care about */
+export type SpendEntry = {
+  ts: string;
+  provider: string;
+  keyId?: string;
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+};
+
+export type BudgetDecision =
+  | { action: "allow"; warnings: BudgetWarning[] }
+  | { action: "reject"; message: string; retryAfterSec: number; warnings: BudgetWarning[] }
+  | { action: "downgrade"; route: ProviderModel; message: string; warnings: BudgetWarning[] };
+
+export type BudgetWarning = { id: string; message: string };
+
+const DEFAULT_WARN_AT = [0.8];
+
+/** Short, non-reversible id for a client API key (what the ledger stores) */
+export function keyIdOf(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 12);
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────
+
+function budgetLabel(b: Budget): string {
+  if (b.name) return b.name;
+  const scope = [b.provider ?? "all providers", b.apiKey ? `key ${keyIdOf(b.apiKey)}` : null].filter(Boolean).join(", ");
+  return `${scope} ${b.period === "day" ? "daily" : "monthly"} budget`;
+}
+
+function appliesTo(b: Budget, provider: ProviderKey, keyId?: string): boolean {
+  if (b.provider && b.provider !== provider) return false;
+  if (b.apiKey && keyIdOf(b.apiKey) !== keyId) return false;
+  return true;
+}
+
+function nextPeriodStart(period: Budget["period"], now: Date): Date {
+  const start = periodStart(period, now);
+  return period === "day"
+    ? new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1)
+    : new Date(start.getFullYear(), start.getMonth() + 1, 1);
+}
+
+/** Fraction of the tightest limit used so far, with a human-readable summary */
+function usage(b: Budget, entries: SpendEntry[], now: Date) {
+  const since = periodStart(b.period, now).getTime();
+  let costUsd = 0;
+  let tokens = 0;
+  for (const e of entries) {
+    if (new Date(e.ts).getTime() < since) continue;
+    if (b.provider && e.provider !== b.provider) continue;
+    if (b.apiKey && e.keyId !== keyIdOf(b.apiKey)) continue;
+    costUsd += e.costUsd || 0;
+    tokens += (e.inputTokens || 0) + (e.outputTokens || 0);
+  }
+
+  const parts: { fraction: number; text: string }[] = [];
+  if (b.maxCostUsd !== undefined) {
+    parts.push({ fraction: b.maxCostUsd > 0 ? costUsd / b.maxCostUsd : Infinity, text: `${formatCost(costUsd)} of ${formatCost(b.maxCostUsd)}` });
+  }
+  if (b.maxTokens !== undefined) {
+    parts.push({ fraction: b.maxTokens > 0 ? tokens / b.maxTokens : Infinity, text: `${tokens} of ${b.maxTokens} tokens` });
+  }
+  const worst = parts.sort((a, b) => b.fraction - a.fraction)[0];
+  return worst ?? { fraction: 0, text: "" };
+}
+
+/**
+ * Decide whether a request may go to `route`. Pure: takes the config and the spend
+ * so far; the caller logs warnings. A downgrade target is checked once more and
+ * rejected if it is over budget too.
+ */
+export function evaluateBudgets(
+  config: BudgetConfig,
+  entries: SpendEntry[],
+  route: ProviderModel,
+  keyId?: string,
+  now = new Date(),
+): BudgetDecision {
+  const warnings: BudgetWarning[] = [];
+  const budgets = (config.budgets ?? []).filter((b) => b && (b.period === "day" || b.period === "month"));
+
+  const exceededFor = (target: ProviderModel) => {
+    for (const b of budgets) {
+      if (!appliesTo(b, target.provider, keyId)) continue;
+      const used = usage(b, entries, now);
+      const label = budgetLabel(b);
+      if (used.fraction >= 1) return { budget: b, label, used };
+
+      const periodKey = periodStart(b.period, now).toISOString();
+      const thresholds = [...(b.warnAt ?? config.warnAt ?? DEFAULT_WARN_AT)].sort((a, b) => b - a);
+      const crossed = thresholds.find((t) => used.fraction >= t);
+      if (crossed !== undefined) {
+        warnings.push({
+          id: `${label}|${periodKey}|${crossed}`,
+          message: `${label}: ${used.text} used (${Math.round(used.fraction * 100)}%)`,
+        });
+      }
+    }
+    return null;
+  };
+
+  const hit = exceededFor(route);
+  if (!hit) return { action: "allow", warnings };
+
+  const reason = `${hit.label} exceeded (${hit.used.text})`;
+  const retryAfterSec = Math.max(1, Math.ceil((nextPeriodStart(hit.budget.period, now).getTime() - now.getTime()) / 1000));
+
+  if (hit.budget.onExceed === "downgrade" && hit.budget.downgradeTo) {
+    const downgraded = parseProviderModel(hit.budget.downgradeTo);
+    const sameRoute = downgraded.provider === route.provider && downgraded.model === route.model;
+    const stillOver = sameRoute ? hit : exceededFor(downgraded);
+    if (!stillOver) {
+      return {
+        action: "downgrade",
+        route: downgraded,
+        message: `${reason} — using ${downgraded.provider}:${downgraded.model}`,
+        warnings,
+      };
+    }
+  }
+
+  return { action: "reject", message: `Budget exhausted: ${reason}`, retryAfterSec, warnings };
+}
+
+// ── Gateway integration ──────────────────────────────────────────────
+
+// Ledger entries since the start of the current month (covers day budgets too)
+let spend: SpendEntry[] | null = null;
+let spendMonth = "";
+const warned = new Set<string>();
+
+async function currentSpend(now: Date): Promise<SpendEntry[]> {
+  const month = periodStart("month", now).toISOString();
+  if (!spend || spendMonth !== month) {
+    spend = await readUsage({ since: month });
+    spendMonth = month;
+  }
+  return spend!;
+}
+
+/** Count a just-recorded ledger entry toward budgets */
+export function noteSpend(entry: SpendEntry) {
+  spend?.push(entry);
+}
+
+/** Check budgets.json for this request; logs each threshold warning once per period */
+export async function checkBudgets(route: ProviderModel, keyId?: string): Promise<BudgetDecision> {
+  const config = await loadConfigFile<BudgetConfig>("budgets.json");
+  if (!config?.budgets?.length) return { action: "allow", warnings: [] };
+
+  const now = new Date();
+  const decision = evaluateBudgets(config, await currentSpend(now), route, keyId, now);
+  for (const w of decision.warnings) {
+    if (warned.has(w.id)) continue;
+    warned.add(w.id);
+    console.warn(`[ccx] Budget warning: ${w.message}`);
+  }
+  return decision;
+}
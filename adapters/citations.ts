@@ -0,0 +1,93 @@
+// Native web search → Anthropic web search blocks
+// Gemini grounding and Responses API web_search calls become a server_tool_use +
+// web_search_tool_result pair, and the URLs backing the answer become text
+// `citations`, so Claude Code shows what was searched and where claims come from.
+// Upstreams have no encrypted result content, so those fields are left empty.
+
+import type { FastifyReply } from "fastify";
+import { sendEvent } from "./sse.js";
+import type { AnthropicCitation, AnthropicWebSearchResult } from "./types.js";
+import * as crypto from "crypto";
+
+export type WebSearch = { id?: string; query: string; results: { url: string; title?: string }[] };
+
+function webSearchResult(url: string, title?: string): AnthropicWebSearchResult {
+  return { type: "web_search_result", url, title: title || url, encrypted_content: "", page_age: null };
+}
+
+function webSearchCitation(url: string, title: string | undefined, citedText: string): AnthropicCitation {
+  return { type: "web_search_result_location", url, title: title || url, cited_text: citedText, encrypted_index: "" };
+}
+
+/**
+ * Gemini `groundingMetadata` → the searches it ran and the citations for the
+ * answer text (one per supported segment and source, in answer order)
+ */
+export function fromGeminiGrounding(meta: any): { search: WebSearch | null; citations: AnthropicCitation[] } {
+  const sources: { url: string; title?: string }[] = (meta?.groundingChunks ?? [])
+    .map((c: any) => (c?.web?.uri ? { url: c.web.uri, title: c.web.title } : null))
+    .filter(Boolean);
+  const queries: string[] = (meta?.webSearchQueries ?? []).filter((q: unknown) => typeof q === "string" && q);
+
+  const citations: AnthropicCitation[] = [];
+  const seen = new Set<string>();
+  for (const support of meta?.groundingSupports ?? []) {
+    const text = support?.segment?.text;
+    if (!text) continue;
+    for (const i of support.groundingChunkIndices ?? []) {
+      const source = sources[i];
+      const key = `${i}\0${text}`;
+      if (!source || seen.has(key)) continue;
+      seen.add(key);
+      citations.push(webSearchCitation(source.url, source.title, text));
+    }
+  }
+
+  const search = queries.length || sources.length ? { query: queries.join("; "), results: sources } : null;
+  return { search, citations };
+}
+
+/** A Responses API `url_citation` annotation → citation of the annotated span of `text` */
+export function fromUrlCitation(annotation: any, text: string): AnthropicCitation | null {
+  if (annotation?.type !== "url_citation" || !annotation.url) return null;
+  const start = Number.isInteger(annotation.start_index) ? annotation.start_index : 0;
+  const end = Number.isInteger(annotation.end_index) ? annotation.end_index : text.length;
+  return webSearchCitation(annotation.url, annotation.title, text.slice(start, end));
+}
+
+/** Send a server_tool_use + web_search_tool_result pair starting at `index`; returns the next free index */
+export function sendWebSearchBlocks(res: FastifyReply, index: number, search: WebSearch): number {
+  const id = `srvtoolu_${search.id ?? crypto.randomBytes(12).toString("hex")}`;
+  sendEvent(res, "content_block_start", {
+    type: "content_block_start",
+    index,
+    content_block: { type: "server_tool_use", id, name: "web_search", input: {} },
+  });
+  sendEvent(res, "content_block_delta", {
+    type: "content_block_delta",
+    index,
+    delta: { type: "input_json_delta", partial_json: JSON.stringify({ query: search.query }) },
+  });
+  sendEvent(res, "content_block_stop", { type: "content_block_stop", index });
+
+  sendEvent(res, "content_block_start", {
+    type: "content_block_start",
+    index: index + 1,
+    content_block: {
+      type: "web_search_tool_result",
+      tool_use_id: id,
+      content: search.results.map((r) => webSearchResult(r.url, r.title)),
+    },
+  });
+  sendEvent(res, "content_block_stop", { type: "content_block_stop", index: index + 1 });
+  return index + 2;
+}
+
+/** Attach a citation to the text block at `index` */
+export function sendCitation(res: FastifyReply, index: number, citation: AnthropicCitation) {
+  sendEvent(res, "content_block_delta", {
+    type: "content_block_delta",
+    index,
+    delta: { type: "citations_delta", citation },
+  });
+}
@@ -0,0 +1,38 @@
+// Optional JSON config files in ~/.claude-proxy/ (pricing.json, ...)
+// Files are re-read when their mtime changes, so edits apply without a restart.
+
+import { readFile, stat } from "fs/promises";
+import { join } from "path";
+import { homedir } from "os";
+
+export const CONFIG_DIR = join(homedir(), ".claude-proxy");
+
+const cache = new Map<string, { mtimeMs: number; value: unknown }>();
+
+/**
+ * Load ~/.claude-proxy/<name> as JSON. Returns null when the file is missing;
+ * invalid JSON is logged and treated as missing so a typo can't take the proxy down.
+ */
+export async function loadConfigFile<T>(name: string): Promise<T | null> {
+  const file = join(CONFIG_DIR, name);
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(file)).mtimeMs;
+  } catch {
+    cache.delete(file);
+    return null;
+  }
+
+  const hit = cache.get(file);
+  if (hit && hit.mtimeMs === mtimeMs) return hit.value as T | null;
+
+  let value: T | null = null;
+  try {
+    value = JSON.parse(await readFile(file, "utf-8")) as T;
+    console.log(`[ccx] Loaded ${file}`);
+  } catch (e: any) {
+    console.error(`[ccx] Ignoring ${file}: ${e.message}`);
+  }
+  cache.set(file, { mtimeMs, value });
+  return value;
+}
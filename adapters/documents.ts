@@ -0,0 +1,125 @@
+// Document blocks (PDF / plain text / URL) for providers without file input
+// Text-only upstreams get the document's text instead: plain-text documents as-is,
+// PDFs through a small best-effort extractor (no OCR, no font decoding).
+
+import { inflateSync } from "zlib";
+import type { AnthropicContentBlock, AnthropicDocumentSource, AnthropicRequest } from "./types.js";
+
+type DocumentBlock = Extract<AnthropicContentBlock, { type: "document" }>;
+
+/** File name for providers that want one (Responses `input_file`, OpenRouter `file`) */
+export function documentFilename(block: DocumentBlock): string {
+  const base = block.title?.trim() || "document";
+  return block.source.type === "text" || /\.pdf$/i.test(base) ? base : `${base}.pdf`;
+}
+
+/** base64 PDF as a data: URL */
+export function pdfDataUrl(source: Extract<AnthropicDocumentSource, { type: "base64" }>): string {
+  return `data:${source.media_type || "application/pdf"};base64,${source.data}`;
+}
+
+/** The document as text, headed by its title, for text-only upstreams */
+export function documentText(block: DocumentBlock): string {
+  const title = block.title ? `[Document: ${block.title}]` : "[Document]";
+  const source = block.source;
+  if (source.type === "text") return `${title}\n${source.data}`;
+  if (source.type === "url") return `${title} ${source.url}`;
+  const text = extractPdfText(Buffer.from(source.data, "base64"));
+  return text ? `${title}\n${text}` : `${title} (no extractable text - the PDF may be scanned images)`;
+}
+
+/**
+ * Replace document blocks with their text, for upstreams that take no files (GLM).
+ * Mutates body.messages in place.
+ */
+export function preprocessDocuments(body: AnthropicRequest): void {
+  for (const msg of body.messages) {
+    if (!Array.isArray(msg.content)) continue;
+    msg.content = msg.content.map((block) =>
+      block.type === "document" ? { type: "text", text: documentText(block) } : block
+    );
+  }
+}
+
+// ── PDF text extraction ────────────────────────────────────────────────
+
+/** Text drawn by the PDF's content streams, one line per text line (best effort) */
+export function extractPdfText(pdf: Buffer): string {
+  const raw = pdf.toString("latin1");
+  const lines: string[] = [];
+  const streamRe = /<<((?:(?!>>)[\s\S])*?)>>\s*stream\r?\n/g;
+  let m: RegExpExecArray | null;
+
+  while ((m = streamRe.exec(raw))) {
+    const start = m.index + m[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) break;
+    const dict = m[1];
+    streamRe.lastIndex = end;
+    // Images, fonts and other binary streams aren't text
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length1/.test(dict)) continue;
+
+    let data = pdf.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        data = inflateSync(data);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dict)) {
+      continue; // Other encodings aren't supported
+    }
+    lines.push(...textOperators(data.toString("latin1")));
+  }
+
+  return lines
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** Lines of text from the Tj / TJ / ' / " operators of one content stream */
+function textOperators(content: string): string[] {
+  if (!/\bBT\b/.test(content)) return [];
+  const lines: string[] = [];
+  let line = "";
+  const tokenRe = /\((?:\\[\s\S]|[^\\)])*\)|\[(?:\((?:\\[\s\S]|[^\\)])*\)|[^\]])*\]|\b(?:Tj|TJ|Td|TD|ET)\b|\bT\*|'|"/g;
+  let pending: string[] = [];
+  let t: RegExpExecArray | null;
+
+  while ((t = tokenRe.exec(content))) {
+    const tok = t[0];
+    if (tok.startsWith("(")) pending = [unescapePdfString(tok.slice(1, -1))];
+    else if (tok.startsWith("[")) {
+      pending = [];
+      for (const s of tok.matchAll(/\((?:\\[\s\S]|[^\\)])*\)|-?\d+(?:\.\d+)?/g)) {
+        // Large negative kerning is how PDFs draw word gaps
+        if (s[0].startsWith("(")) pending.push(unescapePdfString(s[0].slice(1, -1)));
+        else if (Number(s[0]) < -200) pending.push(" ");
+      }
+    } else if (tok === "Tj" || tok === "TJ") {
+      line += pending.join("");
+      pending = [];
+    } else if (tok === "'" || tok === '"') {
+      lines.push(line);
+      line = pending.join("");
+      pending = [];
+    } else {
+      // T*, Td, TD, ET: move to a new line
+      if (line) lines.push(line);
+      line = "";
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+const PDF_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", "(": "(", ")": ")", "\\": "\\" };
+
+function unescapePdfString(s: string): string {
+  return s.replace(/\\(\d{1,3}|[\s\S])/g, (_, c: string) => {
+    if (/^\d+$/.test(c)) return String.fromCharCode(parseInt(c, 8));
+    if (c === "\n" || c === "\r") return ""; // line continuation
+    return PDF_ESCAPES[c] ?? c;
+  });
+}
@@ -0,0 +1,57 @@
+// Cross-provider fallback chains from ~/.claude-proxy/fallbacks.json
+// When an upstream fails before any content reached the client, the gateway
+// retries the request on the next route in the chain.
+
+import { loadConfigFile } from "./config.js";
+import { parseProviderModel } from "./map.js";
+import type { ProviderModel } from "./types.js";
+
+export type FallbackConfig = {
+  /**
+   * Route → ordered fallbacks. Keys are tried as "provider:model", the model
+   * name the client sent (e.g. a shortcut like "codex"), "provider", then "*".
+   */
+  chains?: Record<string, string[]>;
+  /** HTTP statuses that trigger a fallback (default: auth/availability errors, 429, 5xx) */
+  on?: number[];
+};
+
+// 400/413 mean the request itself is bad - another provider won't fix that
+const DEFAULT_FALLBACK_STATUSES = [401, 403, 404, 408, 409, 429, 500, 502, 503, 504, 529];
+
+/** Resolve the fallback routes for a request (not including the primary route) */
+export function resolveFallbacks(config: FallbackConfig | null, route: ProviderModel, requestedModel?: string): ProviderModel[] {
+  const chains = config?.chains;
+  if (!chains) return [];
+
+  const keys = [`${route.provider}:${route.model}`, requestedModel?.toLowerCase(), route.provider, "*"];
+  const key = keys.find((k) => k && Array.isArray(chains[k]));
+  if (!key) return [];
+
+  const seen = new Set([`${route.provider}:${route.model}`]);
+  const fallbacks: ProviderModel[] = [];
+  for (const spec of chains[key]) {
+    if (typeof spec !== "string" || !spec.trim()) continue;
+    const next = parseProviderModel(spec.trim());
+    const id = `${next.provider}:${next.model}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    // Keep the caller's reasoning level unless the fallback spec sets its own
+    fallbacks.push({ ...next, reasoning: next.reasoning ?? route.reasoning });
+  }
+  return fallbacks;
+}
+
+/** Whether an upstream error is worth retrying on another provider */
+export function shouldFallback(e: any, config: FallbackConfig | null): boolean {
+  const status = e?.statusCode;
+  // No status = network failure or an upstream error we couldn't classify
+  if (typeof status !== "number") return true;
+  return (config?.on ?? DEFAULT_FALLBACK_STATUSES).includes(status);
+}
+
+/** Load fallbacks.json and resolve the chain for this request */
+export async function getFallbackChain(route: ProviderModel, requestedModel?: string) {
+  const config = await loadConfigFile<FallbackConfig>("fallbacks.json");
+  return { config, fallbacks: resolveFallbacks(config, route, requestedModel) };
+}
@@ -4,10 +4,12 @@
 
 import * as http from "http";
 import * as crypto from "crypto";
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile, readdir, writeFile, mkdir } from "fs/promises";
 import { join } from "path";
 import { homedir } from "os";
 import { execSync } from "child_process";
+import { createAccountPool, parseStrategy } from "./account-pool.js";
+import type { AccountPool } from "./account-pool.js";
 
 // ── OAuth constants (from official Gemini CLI) ─────────────────────────
 
@@ -56,6 +58,24 @@ export async function loadTokens(account = 1): Promise<GoogleTokens | null> {
   }
 }
 
+/** Account numbers with a saved token file, ascending */
+export async function listGoogleAccounts(): Promise<number[]> {
+  let files: string[];
+  try {
+    files = await readdir(PROXY_DIR);
+  } catch {
+    return [];
+  }
+  const accounts: number[] = [];
+  for (const f of files) {
+    const m = f.match(/^google-oauth(?:-(\d+))?\.json$/);
+    if (!m) continue;
+    const n = m[1] ? Number(m[1]) : 1;
+    if (n >= 1) accounts.push(n);
+  }
+  return accounts.sort((a, b) => a - b);
+}
+
 /** Alias for loadTokens - used by gemini-oauth for failover */
 export async function getTokensForAccount(account: number): Promise<GoogleTokens | null> {
   return loadTokens(account);
@@ -66,6 +86,30 @@ async function saveTokens(tokens: GoogleTokens, account = 1): Promise<void> {
   await writeFile(authFile(account), JSON.stringify(tokens, null, 2), { mode: 0o600 });
 }
 
+// ── Account pool ───────────────────────────────────────────────────────
+
+let pool: AccountPool | null = null;
+
+/** Shared pool over all linked Google accounts (created on first use, after .env is loaded) */
+export function getGooglePool(): AccountPool {
+  pool ??= createAccountPool({
+    name: "gemini-oauth",
+    listAccounts: listGoogleAccounts,
+    strategy: parseStrategy(process.env.GOOGLE_ACCOUNT_STRATEGY),
+    cooldownMs: Number(process.env.GOOGLE_ACCOUNT_COOLDOWN_SEC) * 1000 || undefined,
+  });
+  return pool;
+}
+
+/** Account 1 login status plus the pool state of every linked account */
+export async function getPoolStatus() {
+  const p = getGooglePool();
+  const accounts = await Promise.all(
+    (await p.status()).map(async (s) => ({ ...(await getLoginStatus(s.account)), ...s })),
+  );
+  return { ...(await getLoginStatus(1)), strategy: p.strategy, accounts };
+}
+
 // ── PKCE helpers ───────────────────────────────────────────────────────
 
 function generatePKCE() {
@@ -596,10 +640,10 @@ function errorPage(message: string): string {
 
 export function loginPage(_proxyPort: number, account = 1): string {
   const startPath = account === 1 ? "/google/login/start" : `/google/login/${account}/start`;
-  const title = account === 1 ? "Google Login for Gemini" : `Google Login for Gemini (Account ${account} — Failover)`;
+  const title = account === 1 ? "Google Login for Gemini" : `Google Login for Gemini (Account ${account})`;
   const subtitle = account === 1
     ? "Click the button below to authenticate with your Google account."
-    : `Click the button below to authenticate a second Google account. This account will be used automatically when account 1 hits rate limits (429).`;
+    : `Click the button below to link Google account ${account}. Requests rotate across linked accounts, and an account that hits a rate limit (429) cools down while the others take over.`;
   return `<!DOCTYPE html>
 <html><head><title>Google Login</title></head>
 <body style="font-family:system-ui;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0f172a;">
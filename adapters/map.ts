@@ -1,6 +1,10 @@
 // Provider parsing and message mapping utilities
+import { createHash } from "crypto";
+import { documentText } from "./documents.js";
 import {
+  AnthropicImageSource,
   AnthropicMessage,
+  AnthropicTool,
   AnthropicRequest,
   ProviderKey,
   ProviderModel,
@@ -9,6 +13,23 @@ import {
 
 const VALID_REASONING: ReasoningLevel[] = ["low", "medium", "high", "xhigh"];
 
+/** Thinking token budget for each reasoning level (Gemini 2.5, GLM) */
+export const REASONING_BUDGETS: Record<ReasoningLevel, number> = {
+  low: 1024,
+  medium: 8192,
+  high: 32768,
+  xhigh: 65536,
+};
+
+/**
+ * A thinking budget clamped to what the Gemini 2.5 model accepts: Pro takes
+ * 128–32768 and can't turn thinking off, Flash-Lite 512–24576, Flash 0–24576
+ */
+export function clampGemini25Budget(model: string, budget: number): number {
+  const [min, max] = /pro/i.test(model) ? [128, 32768] : /flash-lite/i.test(model) ? [512, 24576] : [0, 24576];
+  return Math.min(Math.max(Math.round(budget), min), max);
+}
+
 const PROVIDER_PREFIXES: ProviderKey[] = [
   "openai",
   "openrouter",
@@ -79,6 +100,20 @@ const PROVIDER_MAIN_MODEL: Partial<Record<ProviderKey, string>> = {
   "glm": "glm-5",
 };
 
+/** All shortcut aliases and the `provider:model` each one expands to */
+export function getModelShortcuts(): Readonly<Record<string, string>> {
+  return MODEL_SHORTCUTS;
+}
+
+/** Per-provider main/fast models used when remapping internal Claude requests */
+export function getProviderDefaultModels(): { provider: ProviderKey; main?: string; fast?: string }[] {
+  return PROVIDER_PREFIXES.map((provider) => ({
+    provider,
+    main: PROVIDER_MAIN_MODEL[provider],
+    fast: PROVIDER_FAST_MODEL[provider],
+  }));
+}
+
 /**
  * Parse provider and model from the model field
  * Supports formats: "provider:model" or "provider/model"
@@ -168,6 +203,46 @@ export function warnIfTools(
   }
 }
 
+/**
+ * Split tool_result content into text and images. Images are left out of the
+ * text (marked `[image N]` where they were) so base64 never reaches the model
+ * as text; adapters attach them as native image parts.
+ */
+export function splitToolResult(content: string | unknown[]): { text: string; images: AnthropicImageSource[] } {
+  if (typeof content === "string") return { text: content, images: [] };
+  const texts: string[] = [];
+  const images: AnthropicImageSource[] = [];
+  for (const part of content as any[]) {
+    if (typeof part === "string") texts.push(part);
+    else if (part?.type === "text") texts.push(part.text ?? "");
+    else if (part?.type === "image" && part.source) {
+      images.push(part.source);
+      texts.push(`[image ${images.length}]`);
+    } else if (part?.type === "document" && part.source) texts.push(documentText(part));
+    else texts.push(JSON.stringify(part));
+  }
+  return { text: texts.join("\n"), images };
+}
+
+/**
+ * OpenAI Chat Completions messages for tool results: one `tool` message each
+ * (text only, as the API requires), then a user message carrying their images
+ */
+export function toOpenAIToolMessages(results: Array<{ tool_use_id: string; content: string | unknown[] }>) {
+  const out: any[] = [];
+  const imageParts: any[] = [];
+  for (const r of results) {
+    const { text, images } = splitToolResult(r.content);
+    out.push({ role: "tool", tool_call_id: r.tool_use_id, content: text });
+    if (images.length) {
+      imageParts.push({ type: "text", text: `Images from tool call ${r.tool_use_id}:` });
+      for (const img of images) imageParts.push({ type: "image_url", image_url: { url: imageUrl(img) } });
+    }
+  }
+  if (imageParts.length) out.push({ role: "user", content: imageParts });
+  return out;
+}
+
 /**
  * Convert Anthropic content to plain text
  */
@@ -177,10 +252,10 @@ export function toPlainText(content: AnthropicMessage["content"]): string {
     .map((c) => {
       if (typeof c === "string") return c;
       if (c.type === "text") return c.text;
+      if (c.type === "document") return documentText(c);
       if (c.type === "tool_result") {
         // Convert tool results to text representation
-        if (typeof c.content === "string") return c.content;
-        return JSON.stringify(c.content);
+        return splitToolResult(c.content).text;
       }
       return "";
     })
@@ -206,3 +281,134 @@ export function toGeminiContents(messages: AnthropicMessage[]) {
     parts: [{ text: toPlainText(m.content) }],
   }));
 }
+
+/** An image source as a URL OpenAI-style APIs accept (data: URL for base64) */
+export function imageUrl(source: AnthropicImageSource): string {
+  return source.type === "url" ? source.url : `data:${source.media_type};base64,${source.data}`;
+}
+
+/**
+ * Stable, non-reversible end-user id from metadata.user_id (for OpenAI's `user` field)
+ */
+export function endUserId(req: AnthropicRequest): string | undefined {
+  const userId = req.metadata?.user_id;
+  if (typeof userId !== "string" || !userId) return undefined;
+  return createHash("sha256").update(userId).digest("hex").slice(0, 32);
+}
+
+/**
+ * Sampling, stop and end-user fields in OpenAI Chat Completions form.
+ * Only fields the client set are included; `top_k` only where the upstream accepts it.
+ */
+export function toOpenAIRequestOptions(req: AnthropicRequest, opts: { topK?: boolean } = {}) {
+  const out: Record<string, unknown> = {};
+  if (req.top_p !== undefined) out.top_p = req.top_p;
+  if (opts.topK && req.top_k !== undefined) out.top_k = req.top_k;
+  // OpenAI takes at most 4; the adapters also match stop sequences locally
+  if (req.stop_sequences?.length) out.stop = req.stop_sequences.slice(0, 4);
+  const user = endUserId(req);
+  if (user) out.user = user;
+  return out;
+}
+
+/**
+ * tool_choice in OpenAI Chat Completions form (`tool_choice` + `parallel_tool_calls`).
+ * Empty when the request has no tools, since OpenAI rejects tool_choice without them.
+ */
+export function toOpenAIToolChoice(req: AnthropicRequest) {
+  const choice = req.tool_choice;
+  const out: Record<string, unknown> = {};
+  if (!choice || !functionTools(req).length) return out;
+  if (choice.type === "auto") out.tool_choice = "auto";
+  else if (choice.type === "any") out.tool_choice = "required";
+  else if (choice.type === "none") out.tool_choice = "none";
+  else if (choice.type === "tool") out.tool_choice = { type: "function", function: { name: choice.name } };
+  if (choice.type !== "none" && choice.disable_parallel_tool_use) out.parallel_tool_calls = false;
+  return out;
+}
+
+/**
+ * tool_choice in Responses API form (function tools are flat: `{type, name}`).
+ * `none` applies even without client tools, since it also turns off web search.
+ */
+export function toResponsesToolChoice(req: AnthropicRequest) {
+  const choice = req.tool_choice;
+  const out: Record<string, unknown> = {};
+  if (!choice || (choice.type !== "none" && !functionTools(req).length)) return out;
+  if (choice.type === "auto") out.tool_choice = "auto";
+  else if (choice.type === "any") out.tool_choice = "required";
+  else if (choice.type === "none") out.tool_choice = "none";
+  else if (choice.type === "tool") out.tool_choice = { type: "function", name: choice.name };
+  if (choice.type !== "none" && choice.disable_parallel_tool_use) out.parallel_tool_calls = false;
+  return out;
+}
+
+/**
+ * Gemini `toolConfig` for a tool_choice. Gemini has no parallel-call switch,
+ * so disable_parallel_tool_use is dropped.
+ */
+export function toGeminiToolConfig(req: AnthropicRequest) {
+  const choice = req.tool_choice;
+  if (!choice || !functionTools(req).length) return undefined;
+  if (choice.type === "auto") return { functionCallingConfig: { mode: "AUTO" } };
+  if (choice.type === "none") return { functionCallingConfig: { mode: "NONE" } };
+  if (choice.type === "any") return { functionCallingConfig: { mode: "ANY" } };
+  return { functionCallingConfig: { mode: "ANY", allowedFunctionNames: [choice.name] } };
+}
+
+/** The request forces a call to one of the client's tools (`any` / `tool`) */
+export function forcesToolUse(req: AnthropicRequest): boolean {
+  return !!functionTools(req).length && (req.tool_choice?.type === "any" || req.tool_choice?.type === "tool");
+}
+
+/** Anthropic server tools run on the provider's side, not by the client */
+export function isServerTool(tool: AnthropicTool): boolean {
+  return !!tool.type && tool.type !== "custom";
+}
+
+/** The client's own tools: the ones declared upstream as functions */
+export function functionTools(req: AnthropicRequest): AnthropicTool[] {
+  return (req.tools ?? []).filter((t) => !isServerTool(t));
+}
+
+/**
+ * Whether to turn on the provider's own web search: the request carries
+ * Anthropic's web_search server tool and doesn't force a client tool
+ */
+export function wantsNativeSearch(req: AnthropicRequest): boolean {
+  return !!req.tools?.some((t) => t.type?.startsWith("web_search")) && !forcesToolUse(req);
+}
+
+/**
+ * Chat Completions doesn't say when a streamed tool call is finished; its
+ * arguments are once they parse, since more text would make them invalid JSON
+ */
+export function isCompleteToolArguments(args: string): boolean {
+  try {
+    JSON.parse(args);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** `thinking.budget_tokens` when the client turned extended thinking on */
+export function thinkingBudget(req: AnthropicRequest): number | undefined {
+  const t = req.thinking;
+  if (t?.type !== "enabled" || !Number.isFinite(t.budget_tokens) || t.budget_tokens <= 0) return undefined;
+  return t.budget_tokens;
+}
+
+/**
+ * Reasoning level for the request's `thinking` parameter. Claude Code asks for
+ * about 4K ("think"), 10K ("think hard") and 32K ("ultrathink") tokens. Disabled
+ * or absent thinking gives no level, leaving the provider's default in place.
+ */
+export function reasoningFromThinking(req: AnthropicRequest): ReasoningLevel | undefined {
+  const budget = thinkingBudget(req);
+  if (budget === undefined) return undefined;
+  if (budget < 4096) return "low";
+  if (budget < 16384) return "medium";
+  if (budget < REASONING_BUDGETS.high) return "high";
+  return "xhigh";
+}
@@ -0,0 +1,159 @@
+// Model discovery for GET /v1/models
+// Lists every shortcut from map.ts plus the per-provider catalog models, and
+// marks which ones are usable right now based on API keys and OAuth logins.
+
+import { getModelShortcuts, getProviderDefaultModels, parseProviderModel } from "./map.js";
+import { listGoogleAccounts } from "./google-auth.js";
+import { listCodexAccounts } from "./openai-auth.js";
+import type { ProviderKey } from "./types.js";
+
+export type ProviderAvailability = {
+  provider: ProviderKey;
+  available: boolean;
+  reason?: string;
+};
+
+export type ModelEntry = {
+  type: "model";
+  id: string;
+  display_name: string;
+  created_at: string;
+  provider: ProviderKey;
+  model: string;
+  available: boolean;
+  /** Shortcuts that resolve to this model (catalog entries only) */
+  aliases?: string[];
+};
+
+// We don't know upstream release dates; a fixed timestamp keeps responses stable
+const CREATED_AT = new Date(0).toISOString();
+
+/** Check which providers have credentials configured */
+export async function getProviderAvailability(): Promise<Record<ProviderKey, ProviderAvailability>> {
+  const env = process.env;
+  const keyed = (provider: ProviderKey, ok: boolean, missing: string): ProviderAvailability =>
+    ok ? { provider, available: true } : { provider, available: false, reason: `${missing} not set in ~/.claude-proxy/.env` };
+
+  // Any linked account in the pool will do, not just account 1
+  const [google, codex] = await Promise.all([listGoogleAccounts(), listCodexAccounts()]);
+
+  return {
+    openai: keyed("openai", !!env.OPENAI_API_KEY, "OPENAI_API_KEY"),
+    openrouter: keyed("openrouter", !!env.OPENROUTER_API_KEY, "OPENROUTER_API_KEY"),
+    gemini: keyed("gemini", !!env.GEMINI_API_KEY, "GEMINI_API_KEY"),
+    glm: keyed("glm", !!env.GLM_UPSTREAM_URL && !!(env.ZAI_API_KEY || env.GLM_API_KEY), "GLM_UPSTREAM_URL / ZAI_API_KEY"),
+    anthropic: keyed("anthropic", !!env.ANTHROPIC_UPSTREAM_URL && !!env.ANTHROPIC_API_KEY, "ANTHROPIC_UPSTREAM_URL / ANTHROPIC_API_KEY"),
+    "gemini-oauth": google.length
+      ? { provider: "gemini-oauth", available: true }
+      : { provider: "gemini-oauth", available: false, reason: "Not logged in to Google (visit /google/login)" },
+    "codex-oauth": codex.length
+      ? { provider: "codex-oauth", available: true }
+      : { provider: "codex-oauth", available: false, reason: "Not logged in to OpenAI (visit /codex/login)" },
+  };
+}
+
+/** Build the full model list: shortcuts first, then one entry per distinct provider:model */
+export async function listModels(): Promise<{ data: ModelEntry[]; providers: ProviderAvailability[] }> {
+  const availability = await getProviderAvailability();
+  const data: ModelEntry[] = [];
+  const catalog = new Map<string, ModelEntry>();
+
+  function catalogEntry(provider: ProviderKey, model: string): ModelEntry {
+    const id = `${provider}:${model}`;
+    let entry = catalog.get(id);
+    if (!entry) {
+      entry = {
+        type: "model",
+        id,
+        display_name: model,
+        created_at: CREATED_AT,
+        provider,
+        model,
+        available: availability[provider].available,
+        aliases: [],
+      };
+      catalog.set(id, entry);
+    }
+    return entry;
+  }
+
+  for (const [shortcut, target] of Object.entries(getModelShortcuts())) {
+    const { provider, model } = parseProviderModel(target);
+    data.push({
+      type: "model",
+      id: shortcut,
+      display_name: `${shortcut} → ${provider}:${model}`,
+      created_at: CREATED_AT,
+      provider,
+      model,
+      available: availability[provider].available,
+    });
+    catalogEntry(provider, model).aliases!.push(shortcut);
+  }
+
+  for (const { provider, main, fast } of getProviderDefaultModels()) {
+    if (main) catalogEntry(provider, main);
+    if (fast) catalogEntry(provider, fast);
+  }
+
+  data.push(...catalog.values());
+  return { data, providers: Object.values(availability) };
+}
+
+/**
+ * Look up a single model by shortcut or `provider:model` id.
+ * Explicit provider ids that aren't in the catalog are still resolved.
+ */
+export async function getModel(id: string): Promise<ModelEntry | null> {
+  const { data } = await listModels();
+  const found = data.find((m) => m.id === id || m.id === id.toLowerCase());
+  if (found) return found;
+
+  const sep = id.indexOf(":");
+  if (sep <= 0) return null;
+  const provider = id.slice(0, sep).toLowerCase() as ProviderKey;
+  const model = id.slice(sep + 1);
+
+  const availability = await getProviderAvailability();
+  // Only real providers - not inherited keys like "constructor"
+  if (!Object.hasOwn(availability, provider) || !model) return null;
+  return {
+    type: "model",
+    id: `${provider}:${model}`,
+    display_name: model,
+    created_at: CREATED_AT,
+    provider,
+    model,
+    available: availability[provider].available,
+  };
+}
+
+/** Anthropic-style cursor pagination over the model list */
+export function paginateModels(
+  models: ModelEntry[],
+  { limit, after_id, before_id }: { limit?: number; after_id?: string; before_id?: string },
+) {
+  const size = Math.min(Math.max(limit || 20, 1), 1000);
+  let start = 0;
+  let end = models.length;
+
+  if (after_id) {
+    const idx = models.findIndex((m) => m.id === after_id);
+    start = idx >= 0 ? idx + 1 : models.length;
+    end = Math.min(models.length, start + size);
+  } else if (before_id) {
+    const idx = models.findIndex((m) => m.id === before_id);
+    end = idx >= 0 ? idx : 0;
+    start = Math.max(0, end - size);
+  } else {
+    end = Math.min(models.length, size);
+  }
+
+  const page = models.slice(start, end);
+  return {
+    data: page,
+    has_more: before_id ? start > 0 : end < models.length,
+    first_id: page[0]?.id ?? null,
+    last_id: page[page.length - 1]?.id ?? null,
+  };
+}
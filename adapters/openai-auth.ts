@@ -1,13 +1,17 @@
 // OpenAI OAuth 2.0 authentication for Codex
 // Reads existing Codex CLI tokens from ~/.codex/auth.json or our own ~/.claude-proxy/codex-oauth.json
 // Supports auto-refresh and browser-based PKCE login flow
+// Extra ChatGPT accounts (codex-oauth-N.json) join a rotation pool for usage-limit switching
 
 import * as http from "http";
 import * as crypto from "crypto";
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFileSync } from "fs";
+import { readFile, readdir, writeFile, mkdir } from "fs/promises";
 import { join } from "path";
 import { homedir } from "os";
 import { execSync } from "child_process";
+import { createAccountPool, parseStrategy } from "./account-pool.js";
+import type { AccountPool } from "./account-pool.js";
 
 // ── OAuth constants (from Codex CLI) ──────────────────────────────────
 
@@ -21,7 +25,10 @@ const OAUTH_SCOPES = ["openid", "profile", "email", "offline_access"];
 
 const CODEX_AUTH_FILE = join(homedir(), ".codex", "auth.json");
 const PROXY_DIR = join(homedir(), ".claude-proxy");
-const PROXY_AUTH_FILE = join(PROXY_DIR, "codex-oauth.json");
+
+function proxyAuthFile(account: number): string {
+  return join(PROXY_DIR, account === 1 ? "codex-oauth.json" : `codex-oauth-${account}.json`);
+}
 
 // ── Types ─────────────────────────────────────────────────────────────
 
@@ -50,9 +57,9 @@ function decodeJwtPayload(token: string): any {
 // ── Token loading ─────────────────────────────────────────────────────
 
 /** Load tokens from our proxy storage */
-async function loadProxyTokens(): Promise<CodexTokens | null> {
+async function loadProxyTokens(account = 1): Promise<CodexTokens | null> {
   try {
-    const data = await readFile(PROXY_AUTH_FILE, "utf-8");
+    const data = await readFile(proxyAuthFile(account), "utf-8");
     const parsed = JSON.parse(data);
     if (!parsed.access_token || !parsed.refresh_token) return null;
     return parsed as CodexTokens;
@@ -86,14 +93,33 @@ async function loadCodexCliTokens(): Promise<CodexTokens | null> {
   }
 }
 
-/** Load tokens - tries proxy storage first, falls back to Codex CLI */
-export async function loadTokens(): Promise<CodexTokens | null> {
-  return (await loadProxyTokens()) || (await loadCodexCliTokens());
+/** Load tokens - tries proxy storage first; account 1 falls back to Codex CLI */
+export async function loadTokens(account = 1): Promise<CodexTokens | null> {
+  const proxyTokens = await loadProxyTokens(account);
+  if (proxyTokens || account !== 1) return proxyTokens;
+  return loadCodexCliTokens();
 }
 
-async function saveTokens(tokens: CodexTokens): Promise<void> {
+async function saveTokens(tokens: CodexTokens, account = 1): Promise<void> {
   await mkdir(PROXY_DIR, { recursive: true });
-  await writeFile(PROXY_AUTH_FILE, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+  await writeFile(proxyAuthFile(account), JSON.stringify(tokens, null, 2), { mode: 0o600 });
+}
+
+/** Accounts with usable tokens, ascending (account 1 may come from the Codex CLI) */
+export async function listCodexAccounts(): Promise<number[]> {
+  let files: string[] = [];
+  try {
+    files = await readdir(PROXY_DIR);
+  } catch {}
+  const accounts = new Set<number>();
+  for (const f of files) {
+    const m = f.match(/^codex-oauth(?:-(\d+))?\.json$/);
+    if (!m) continue;
+    const n = m[1] ? Number(m[1]) : 1;
+    if (n >= 1) accounts.add(n);
+  }
+  if (!accounts.has(1) && (await loadCodexCliTokens())) accounts.add(1);
+  return [...accounts].sort((a, b) => a - b);
 }
 
 // ── Token refresh ─────────────────────────────────────────────────────
@@ -122,18 +148,18 @@ async function refreshAccessToken(
 }
 
 /** Get the ChatGPT account ID (needed for ChatGPT-Account-ID header) */
-export function getCodexAccountId(): string | null {
+export function getCodexAccountId(account = 1): string | null {
   // Synchronously read from cache or files
   try {
-    const fs = require("fs");
     // Try proxy tokens first
     try {
-      const data = JSON.parse(fs.readFileSync(PROXY_AUTH_FILE, "utf-8"));
+      const data = JSON.parse(readFileSync(proxyAuthFile(account), "utf-8"));
       if (data.account_id) return data.account_id;
     } catch {}
+    if (account !== 1) return null;
     // Fall back to Codex CLI tokens
     try {
-      const data = JSON.parse(fs.readFileSync(CODEX_AUTH_FILE, "utf-8"));
+      const data = JSON.parse(readFileSync(CODEX_AUTH_FILE, "utf-8"));
       if (data.tokens?.account_id) return data.tokens.account_id;
       // Also try to extract from JWT
       if (data.tokens?.access_token) {
@@ -149,17 +175,19 @@ export function getCodexAccountId(): string | null {
 }
 
 /** Get a valid access token, auto-refreshing if needed */
-export async function getCodexAccessToken(): Promise<string> {
-  const tokens = await loadTokens();
+export async function getCodexAccessToken(account = 1): Promise<string> {
+  const tokens = await loadTokens(account);
   if (!tokens) {
     throw new Error(
-      "Not logged in to OpenAI. Run `claude-codex` to authenticate, or log in via Codex CLI."
+      account === 1
+        ? "Not logged in to OpenAI. Run `claude-codex` to authenticate, or log in via Codex CLI."
+        : `Not logged in to OpenAI (account ${account}). Visit /codex/login/${account} to authenticate.`
     );
   }
 
   // Refresh if expired or within 5-minute buffer
   if (Date.now() > tokens.expires_at - 5 * 60 * 1000) {
-    console.log("[codex-oauth] Access token expired, refreshing...");
+    console.log(`[codex-oauth] Access token expired (account ${account}), refreshing...`);
     try {
       const refreshed = await refreshAccessToken(tokens.refresh_token);
       tokens.access_token = refreshed.access_token;
@@ -173,8 +201,8 @@ export async function getCodexAccessToken(): Promise<string> {
         ? payload.exp * 1000
         : Date.now() + (refreshed.expires_in || 3600) * 1000;
 
-      await saveTokens(tokens);
-      console.log("[codex-oauth] Token refreshed successfully");
+      await saveTokens(tokens, account);
+      console.log(`[codex-oauth] Token refreshed successfully (account ${account})`);
     } catch (e: any) {
       throw new Error(
         `OpenAI token refresh failed: ${e.message}. Please re-login with claude-codex.`
@@ -187,7 +215,7 @@ export async function getCodexAccessToken(): Promise<string> {
 
 // ── Login status ──────────────────────────────────────────────────────
 
-export async function getCodexLoginStatus(): Promise<{
+export async function getCodexLoginStatus(account = 1): Promise<{
   loggedIn: boolean;
   email?: string;
   plan?: string;
@@ -196,7 +224,7 @@ export async function getCodexLoginStatus(): Promise<{
   source?: string;
 }> {
   // Check proxy storage first
-  const proxyTokens = await loadProxyTokens();
+  const proxyTokens = await loadProxyTokens(account);
   if (proxyTokens) {
     return {
       loggedIn: true,
@@ -208,8 +236,8 @@ export async function getCodexLoginStatus(): Promise<{
     };
   }
 
-  // Fall back to Codex CLI
-  const cliTokens = await loadCodexCliTokens();
+  // Fall back to Codex CLI (account 1 only)
+  const cliTokens = account === 1 ? await loadCodexCliTokens() : null;
   if (cliTokens) {
     return {
       loggedIn: true,
@@ -226,16 +254,40 @@ export async function getCodexLoginStatus(): Promise<{
 
 // ── Logout ────────────────────────────────────────────────────────────
 
-export async function codexLogout(): Promise<void> {
+export async function codexLogout(account = 1): Promise<void> {
   try {
     const { unlink } = await import("fs/promises");
-    await unlink(PROXY_AUTH_FILE);
-    console.log("[codex-oauth] Logged out, proxy credentials removed.");
+    await unlink(proxyAuthFile(account));
+    console.log(`[codex-oauth] Logged out (account ${account}), proxy credentials removed.`);
   } catch {
-    console.log("[codex-oauth] Already logged out (no proxy tokens).");
+    console.log(`[codex-oauth] Already logged out (account ${account}, no proxy tokens).`);
   }
 }
 
+// ── Account pool ──────────────────────────────────────────────────────
+
+let pool: AccountPool | null = null;
+
+/** Shared pool over all linked ChatGPT accounts (created on first use, after .env is loaded) */
+export function getCodexPool(): AccountPool {
+  pool ??= createAccountPool({
+    name: "codex-oauth",
+    listAccounts: listCodexAccounts,
+    strategy: parseStrategy(process.env.CODEX_ACCOUNT_STRATEGY),
+    cooldownMs: Number(process.env.CODEX_ACCOUNT_COOLDOWN_SEC) * 1000 || undefined,
+  });
+  return pool;
+}
+
+/** Account 1 login status plus the pool state of every linked account */
+export async function getCodexPoolStatus() {
+  const p = getCodexPool();
+  const accounts = await Promise.all(
+    (await p.status()).map(async (s) => ({ ...(await getCodexLoginStatus(s.account)), ...s })),
+  );
+  return { ...(await getCodexLoginStatus(1)), strategy: p.strategy, accounts };
+}
+
 // ── PKCE helpers ──────────────────────────────────────────────────────
 
 function generatePKCE() {
@@ -414,19 +466,21 @@ export async function codexLoginStandalone(): Promise<CodexTokens> {
 
 // ── Proxy-integrated login (via Fastify routes) ───────────────────────
 
-let pendingOAuth: {
+// One pending flow per account. Every account shares the /codex/callback redirect
+// (the redirect URI registered for the Codex client), so the account rides in `state`.
+const pendingOAuthMap = new Map<number, {
   state: string;
   verifier: string;
   redirectUri: string;
-} | null = null;
+}>();
 
 /** Build the OpenAI OAuth authorization URL (for proxy-integrated login) */
-export function buildCodexLoginUrl(proxyPort: number): string {
+export function buildCodexLoginUrl(proxyPort: number, account = 1): string {
   const redirectUri = `http://127.0.0.1:${proxyPort}/codex/callback`;
   const state = crypto.randomBytes(32).toString("hex");
   const { verifier, challenge } = generatePKCE();
 
-  pendingOAuth = { state, verifier, redirectUri };
+  pendingOAuthMap.set(account, { state, verifier, redirectUri });
 
   const params = new URLSearchParams({
     client_id: OAUTH_CLIENT_ID,
@@ -449,18 +503,19 @@ export function buildCodexLoginUrl(proxyPort: number): string {
 export async function handleCodexOAuthCallback(
   code: string,
   state: string
-): Promise<CodexTokens> {
-  if (!pendingOAuth) {
+): Promise<CodexTokens & { account: number }> {
+  if (!pendingOAuthMap.size) {
     throw new Error("No pending OAuth flow. Visit /codex/login first.");
   }
 
-  if (state !== pendingOAuth.state) {
-    pendingOAuth = null;
+  const entry = [...pendingOAuthMap].find(([, p]) => p.state === state);
+  if (!entry) {
+    pendingOAuthMap.clear();
     throw new Error("OAuth state mismatch - possible CSRF attack.");
   }
 
-  const { verifier, redirectUri } = pendingOAuth;
-  pendingOAuth = null;
+  const [account, { verifier, redirectUri }] = entry;
+  pendingOAuthMap.delete(account);
 
   const tokenResp = await fetch(TOKEN_ENDPOINT, {
     method: "POST",
@@ -495,13 +550,13 @@ export async function handleCodexOAuthCallback(
     account_id: payload?.["https://api.openai.com/auth"]?.chatgpt_account_id,
   };
 
-  await saveTokens(tokens);
+  await saveTokens(tokens, account);
 
   console.log(
-    `[codex-oauth] Login successful! Email: ${tokens.email || "unknown"}, Plan: ${tokens.plan || "unknown"}`
+    `[codex-oauth] Login successful (account ${account})! Email: ${tokens.email || "unknown"}, Plan: ${tokens.plan || "unknown"}`
   );
 
-  return tokens;
+  return { ...tokens, account };
 }
 
 // ── HTML pages ────────────────────────────────────────────────────────
@@ -533,15 +588,20 @@ function codexErrorPage(message: string): string {
 </body></html>`;
 }
 
-export function codexLoginPage(): string {
+export function codexLoginPage(account = 1): string {
+  const startPath = account === 1 ? "/codex/login/start" : `/codex/login/${account}/start`;
+  const title = account === 1 ? "OpenAI Login for Codex" : `OpenAI Login for Codex (Account ${account})`;
+  const subtitle = account === 1
+    ? "Click the button below to authenticate with your OpenAI account."
+    : `Click the button below to link ChatGPT account ${account}. When an account hits its usage limit, requests switch to the next linked account.`;
   return `<!DOCTYPE html>
 <html><head><title>OpenAI Login</title></head>
 <body style="font-family:system-ui;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0f172a;">
 <div style="text-align:center;color:#e2e8f0;max-width:500px;">
-  <h1 style="margin:0 0 12px;">OpenAI Login for Codex</h1>
-  <p style="color:#94a3b8;">Click the button below to authenticate with your OpenAI account.</p>
+  <h1 style="margin:0 0 12px;">${title}</h1>
+  <p style="color:#94a3b8;">${subtitle}</p>
   <p style="color:#94a3b8;">Uses the same OAuth flow as the Codex CLI.</p>
-  <a href="/codex/login/start" style="display:inline-block;margin-top:24px;padding:12px 32px;background:#10a37f;color:white;text-decoration:none;border-radius:8px;font-size:16px;font-weight:600;">
+  <a href="${startPath}" style="display:inline-block;margin-top:24px;padding:12px 32px;background:#10a37f;color:white;text-decoration:none;border-radius:8px;font-size:16px;font-weight:600;">
     Sign in with OpenAI
   </a>
   <p style="color:#475569;margin-top:32px;font-size:14px;">Scopes: openid, profile, email, offline_access</p>
@@ -0,0 +1,167 @@
+// Cost estimation: USD per million tokens, keyed by provider then model
+// Defaults below are list prices; override or extend them in ~/.claude-proxy/pricing.json
+// using the same shape. OAuth subscription routes are always $0.
+
+import { loadConfigFile } from "./config.js";
+import type { ProviderKey, ProviderModel, TokenUsage } from "./types.js";
+
+export type ModelPrice = {
+  input: number;
+  output: number;
+  /** Cached input reads (defaults to the input price) */
+  cacheRead?: number;
+  /** Cache writes (defaults to the input price) */
+  cacheWrite?: number;
+};
+
+/** provider → model → price. Model keys ending in "*" match by prefix. */
+export type PriceTable = Partial<Record<ProviderKey, Record<string, ModelPrice>>>;
+
+export type CostEstimate = {
+  costUsd: number;
+  /** upstream = reported by the provider, table = computed from pricing, subscription = OAuth route */
+  source: "upstream" | "table" | "subscription";
+};
+
+// Flat-fee subscriptions: tokens still count, but requests cost nothing extra
+const SUBSCRIPTION_PROVIDERS: ProviderKey[] = ["gemini-oauth", "codex-oauth"];
+
+const DEFAULT_PRICING: PriceTable = {
+  anthropic: {
+    "claude-opus-4-5*": { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+    "claude-opus-4-6*": { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+    "claude-opus-4*": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+    "claude-sonnet-4*": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    "claude-haiku-4*": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+    "claude-3-5-haiku*": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  },
+  glm: {
+    "glm-5*": { input: 1, output: 3.2, cacheRead: 0.2 },
+    "glm-4.7*": { input: 0.6, output: 2.2, cacheRead: 0.11 },
+    "glm-4.6*": { input: 0.6, output: 2.2, cacheRead: 0.11 },
+    "glm-4.5-air*": { input: 0.2, output: 1.1, cacheRead: 0.03 },
+    "glm-4.5-flash": { input: 0, output: 0 },
+    "glm-4.5*": { input: 0.6, output: 2.2, cacheRead: 0.11 },
+    "glm-4-flash*": { input: 0, output: 0 },
+  },
+  openai: {
+    "gpt-5-mini*": { input: 0.25, output: 2, cacheRead: 0.025 },
+    "gpt-5-nano*": { input: 0.05, output: 0.4, cacheRead: 0.005 },
+    "gpt-5.1-codex-mini*": { input: 0.25, output: 2, cacheRead: 0.025 },
+    "gpt-5.2*": { input: 1.75, output: 14, cacheRead: 0.175 },
+    "gpt-5.3*": { input: 1.75, output: 14, cacheRead: 0.175 },
+    "gpt-5*": { input: 1.25, output: 10, cacheRead: 0.125 },
+    "gpt-4.1-mini*": { input: 0.4, output: 1.6, cacheRead: 0.1 },
+    "gpt-4.1*": { input: 2, output: 8, cacheRead: 0.5 },
+    "gpt-4o-mini*": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+    "gpt-4o*": { input: 2.5, output: 10, cacheRead: 1.25 },
+    "o4-mini*": { input: 1.1, output: 4.4, cacheRead: 0.275 },
+    "o3*": { input: 2, output: 8, cacheRead: 0.5 },
+  },
+  gemini: {
+    "gemini-3.1-pro*": { input: 2, output: 12, cacheRead: 0.2 },
+    "gemini-3-pro*": { input: 2, output: 12, cacheRead: 0.2 },
+    "gemini-3.1-flash*": { input: 0.5, output: 3, cacheRead: 0.05 },
+    "gemini-3-flash*": { input: 0.5, output: 3, cacheRead: 0.05 },
+    "gemini-2.5-pro*": { input: 1.25, output: 10, cacheRead: 0.31 },
+    "gemini-2.5-flash-lite*": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+    "gemini-2.5-flash*": { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  },
+  openrouter: {
+    "minimax/minimax-m2*": { input: 0.3, output: 1.2, cacheRead: 0.03 },
+  },
+};
+
+// OpenRouter ids are "vendor/model"; when the model isn't listed under
+// openrouter, fall back to the vendor's direct price
+const OPENROUTER_VENDORS: Record<string, ProviderKey> = {
+  anthropic: "anthropic",
+  openai: "openai",
+  google: "gemini",
+  "z-ai": "glm",
+};
+
+let mergedCache: { source: PriceTable; table: PriceTable } | null = null;
+
+/** Defaults merged with ~/.claude-proxy/pricing.json (file entries win per model key) */
+export async function getPricing(): Promise<PriceTable> {
+  const overrides = await loadConfigFile<PriceTable>("pricing.json");
+  if (!overrides) return DEFAULT_PRICING;
+  // loadConfigFile returns the same object until the file changes
+  if (mergedCache?.source === overrides) return mergedCache.table;
+
+  const merged: PriceTable = { ...DEFAULT_PRICING };
+  for (const [provider, models] of Object.entries(overrides) as [ProviderKey, Record<string, ModelPrice>][]) {
+    if (!models || typeof models !== "object") continue;
+    const valid = Object.entries(models).filter(([key, p]) => {
+      const ok = typeof p?.input === "number" && typeof p?.output === "number";
+      if (!ok) console.warn(`[ccx] pricing.json: ${provider}.${key} needs numeric "input" and "output"`);
+      return ok;
+    });
+    merged[provider] = { ...DEFAULT_PRICING[provider], ...Object.fromEntries(valid) };
+  }
+  mergedCache = { source: overrides, table: merged };
+  return merged;
+}
+
+/** Exact model match first, then the longest matching "prefix*" key */
+function matchModel(models: Record<string, ModelPrice> | undefined, model: string): ModelPrice | null {
+  if (!models) return null;
+  const id = model.toLowerCase();
+  if (models[id]) return models[id];
+
+  let best: ModelPrice | null = null;
+  let bestLen = -1;
+  for (const [key, price] of Object.entries(models)) {
+    if (!key.endsWith("*")) continue;
+    const prefix = key.slice(0, -1).toLowerCase();
+    if (id.startsWith(prefix) && prefix.length > bestLen) {
+      best = price;
+      bestLen = prefix.length;
+    }
+  }
+  return best;
+}
+
+/** Price for a resolved route, or null if we have no pricing for it */
+export function findPrice(table: PriceTable, { provider, model }: ProviderModel): ModelPrice | null {
+  const direct = matchModel(table[provider], model);
+  if (direct || provider !== "openrouter") return direct;
+
+  const [vendor, ...rest] = model.split("/");
+  const viaVendor = OPENROUTER_VENDORS[vendor];
+  if (!viaVendor) return null;
+  let vendorModel = rest.join("/");
+  // OpenRouter uses dots in Claude versions (claude-sonnet-4.5) where Anthropic uses dashes
+  if (viaVendor === "anthropic") vendorModel = vendorModel.replace(/(\d)\.(\d)/g, "$1-$2");
+  return matchModel(table[viaVendor], vendorModel);
+}
+
+/** USD cost of one request's token usage at a given price */
+export function costOf(price: ModelPrice, u: TokenUsage): number {
+  const perToken = (usdPerMillion: number) => usdPerMillion / 1_000_000;
+  return (
+    u.inputTokens * perToken(price.input) +
+    u.outputTokens * perToken(price.output) +
+    u.cacheReadTokens * perToken(price.cacheRead ?? price.input) +
+    u.cacheWriteTokens * perToken(price.cacheWrite ?? price.input)
+  );
+}
+
+/**
+ * Estimate the cost of a request. Upstream-reported cost (OpenRouter) wins over
+ * the table; subscription routes are $0. Returns null when the model is unpriced.
+ */
+export async function estimateCost(route: ProviderModel, usage: TokenUsage): Promise<CostEstimate | null> {
+  if (SUBSCRIPTION_PROVIDERS.includes(route.provider)) return { costUsd: 0, source: "subscription" };
+  if (usage.costUsd !== undefined) return { costUsd: usage.costUsd, source: "upstream" };
+
+  const price = findPrice(await getPricing(), route);
+  return price ? { costUsd: costOf(price, usage), source: "table" } : null;
+}
+
+/** "$0.0123" style, with enough precision for tiny requests */
+export function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  return usd >= 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toPrecision(2)}`;
+}
@@ -1,8 +1,11 @@
 // Pass-through adapter for Anthropic-compatible upstreams (Anthropic API and Z.AI GLM)
 import { FastifyReply } from "fastify";
+import { fetchWithRetry } from "../retry.js";
 
 type PassArgs = {
   res: FastifyReply;
+  /** Which route this is, for the retry policy */
+  provider: "anthropic" | "glm";
   body: any;
   model: string;
   baseUrl: string;
@@ -15,7 +18,7 @@ type PassArgs = {
  * - Anthropic's official API
  * - Z.AI's GLM API (Anthropic-compatible)
  */
-export async function passThrough({ res, body, model, baseUrl, headers }: PassArgs) {
+export async function passThrough({ res, body, model, baseUrl, headers, provider }: PassArgs) {
   const url = `${stripEndSlash(baseUrl)}/v1/messages`;
 
   // Replace model with parsed model name (strips provider prefix like "glm:" or "anthropic:")
@@ -23,11 +26,11 @@ export async function passThrough({ res, body, model, baseUrl, headers }: PassAr
   // Ensure stream is true for Claude Code UX
   body.stream = true;
 
-  const resp = await fetch(url, {
+  const resp = await fetchWithRetry(url, {
     method: "POST",
     headers,
     body: JSON.stringify(body)
-  });
+  }, provider);
 
   if (!resp.ok || !resp.body) {
     const text = await safeText(resp);
@@ -64,3 +67,46 @@ async function safeText(resp: Response) {
     return "<no-body>";
   }
 }
+
+/** Request fields count_tokens takes; everything else only matters for generation */
+const COUNT_FIELDS = ["messages", "system", "tools", "tool_choice", "thinking"];
+
+type CountArgs = {
+  body: any;
+  model: string;
+  baseUrl: string;
+  headers: Record<string, string>;
+};
+
+/**
+ * Forward a count_tokens request to an Anthropic-compatible upstream.
+ * Returns null when the upstream doesn't implement the endpoint or fails,
+ * so the caller can fall back to local estimation.
+ */
+export async function countTokensPassThrough({ body, model, baseUrl, headers }: CountArgs): Promise<number | null> {
+  const url = `${stripEndSlash(baseUrl)}/v1/messages/count_tokens`;
+
+  // count_tokens rejects generation-only fields (max_tokens, stream, sampling, metadata, ...)
+  const countBody: Record<string, unknown> = { model };
+  for (const field of COUNT_FIELDS) {
+    if (body?.[field] !== undefined) countBody[field] = body[field];
+  }
+
+  try {
+    const resp = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(countBody)
+    });
+    if (!resp.ok) {
+      const text = await safeText(resp);
+      console.warn(`[ccx] Upstream count_tokens unavailable (${resp.status}): ${text.slice(0, 200)}`);
+      return null;
+    }
+    const json = (await resp.json()) as { input_tokens?: number };
+    return typeof json.input_tokens === "number" ? json.input_tokens : null;
+  } catch (e: any) {
+    console.warn(`[ccx] Upstream count_tokens failed: ${e.message}`);
+    return null;
+  }
+}
@@ -5,19 +5,48 @@
 import type { EventSourceMessage } from "eventsource-parser";
 import { createParser } from "eventsource-parser";
 import { FastifyReply } from "fastify";
-import { getCodexAccessToken, getCodexAccountId } from "../openai-auth.js";
+import { getCodexAccessToken, getCodexAccountId, getCodexPool } from "../openai-auth.js";
 import { sendEvent } from "../sse.js";
+import { fetchWithRetry, retryAfterMs } from "../retry.js";
+import { countTokens } from "../token-count.js";
+import {
+  formatUsage,
+  fromChatCompletionsUsage,
+  fromResponsesUsage,
+  reportUsage,
+  toAnthropicUsage,
+} from "../usage.js";
+import { fromChatFinishReason, fromResponsesStatus, createStopSequenceMatcher } from "../stop-reason.js";
+import {
+  toOpenAIRequestOptions,
+  toOpenAIToolChoice,
+  toOpenAIToolMessages,
+  toResponsesToolChoice,
+  functionTools,
+  isCompleteToolArguments,
+  wantsNativeSearch,
+  reasoningFromThinking,
+  imageUrl,
+  splitToolResult,
+} from "../map.js";
+import { documentFilename, documentText, pdfDataUrl } from "../documents.js";
+import { fromUrlCitation, sendCitation, sendWebSearchBlocks } from "../citations.js";
 import type {
   AnthropicContentBlock,
   AnthropicMessage,
   AnthropicRequest,
   AnthropicTool,
   ReasoningLevel,
+  TokenUsage,
 } from "../types.js";
 
 const OPENAI_API_BASE = "https://api.openai.com/v1";
 const CHATGPT_CODEX_BASE = "https://chatgpt.com/backend-api/codex";
 
+// Encrypted reasoning travels in thinking block signatures (or redacted_thinking
+// data) with this prefix, so signatures from other providers are never replayed here
+const REASONING_SIGNATURE_PREFIX = "codex-reasoning:";
+
 // ── Format converters: Anthropic → OpenAI Responses API ──────────────
 
 /** Convert Anthropic tools to Responses API tool format */
@@ -30,8 +59,17 @@ function toResponsesTools(tools: AnthropicTool[]) {
   }));
 }
 
+/** Responses `reasoning` input item for a thinking block this adapter produced, else null */
+function toReasoningItem(block: AnthropicContentBlock) {
+  const carrier =
+    block.type === "thinking" ? block.signature : block.type === "redacted_thinking" ? block.data : undefined;
+  if (typeof carrier !== "string" || !carrier.startsWith(REASONING_SIGNATURE_PREFIX)) return null;
+  const summary = block.type === "thinking" && block.thinking ? [{ type: "summary_text", text: block.thinking }] : [];
+  return { type: "reasoning", summary, encrypted_content: carrier.slice(REASONING_SIGNATURE_PREFIX.length) };
+}
+
 /** Convert Anthropic messages to Responses API input items */
-function toResponsesInput(messages: AnthropicMessage[]): any[] {
+export function toResponsesInput(messages: AnthropicMessage[]): any[] {
   const items: any[] = [];
 
   for (const m of messages) {
@@ -50,12 +88,18 @@ function toResponsesInput(messages: AnthropicMessage[]): any[] {
     }
 
     // Collect parts for this message
+    const reasoningItems: any[] = [];
     const contentParts: any[] = [];
     const functionCalls: any[] = [];
     const functionOutputs: any[] = [];
+    const toolImages: any[] = [];
 
     for (const block of m.content as AnthropicContentBlock[]) {
-      if (block.type === "text") {
+      if (block.type === "thinking" || block.type === "redacted_thinking") {
+        // Earlier reasoning goes back so tool loops keep their chain of thought
+        const item = m.role === "assistant" ? toReasoningItem(block) : null;
+        if (item) reasoningItems.push(item);
+      } else if (block.type === "text") {
         const textType = m.role === "assistant" ? "output_text" : "input_text";
         contentParts.push({ type: textType, text: block.text });
       } else if (block.type === "tool_use") {
@@ -70,23 +114,38 @@ function toResponsesInput(messages: AnthropicMessage[]): any[] {
               : JSON.stringify(block.input),
         });
       } else if (block.type === "tool_result") {
-        const output =
-          typeof block.content === "string"
-            ? block.content
-            : JSON.stringify(block.content);
+        // function_call_output is text only; images follow in a user message
+        const { text, images } = splitToolResult(block.content);
         functionOutputs.push({
           type: "function_call_output",
           call_id: block.tool_use_id,
-          output,
+          output: text,
         });
+        if (images.length) {
+          toolImages.push({ type: "input_text", text: `Images from tool call ${block.tool_use_id}:` });
+          for (const img of images) toolImages.push({ type: "input_image", image_url: imageUrl(img) });
+        }
       } else if (block.type === "image") {
         contentParts.push({
           type: "input_image",
-          image_url: `data:${block.source.media_type};base64,${block.source.data}`,
+          image_url: imageUrl(block.source),
         });
+      } else if (block.type === "document" && m.role === "user") {
+        if (block.source.type === "text") {
+          contentParts.push({ type: "input_text", text: documentText(block) });
+        } else if (block.source.type === "url") {
+          contentParts.push({ type: "input_file", file_url: block.source.url });
+        } else {
+          contentParts.push({ type: "input_file", filename: documentFilename(block), file_data: pdfDataUrl(block.source) });
+        }
       }
     }
 
+    // Reasoning precedes the output it led to
+    for (const r of reasoningItems) {
+      items.push(r);
+    }
+
     // Add message with content parts
     if (contentParts.length > 0) {
       items.push({
@@ -105,6 +164,9 @@ function toResponsesInput(messages: AnthropicMessage[]): any[] {
     for (const fo of functionOutputs) {
       items.push(fo);
     }
+    if (toolImages.length > 0) {
+      items.push({ type: "message", role: "user", content: toolImages });
+    }
   }
 
   return items;
@@ -149,21 +211,58 @@ export async function chatCodexOAuth(
   }
 
   try {
-    return await _chatCodexOAuthInner(res, body, model, apiKey, reasoning);
+    if (apiKey) return await _chatCodexOAuthInner(res, body, model, apiKey, reasoning);
+    return await chatWithAccountPool(res, body, model, reasoning);
   } catch (e: any) {
     console.error(`[codex] ERROR: ${e.message}`);
+    // Nothing sent yet (stream:false collection) - let the gateway answer with a real error
+    if (!res.raw.headersSent) throw e;
     sendSSEError(e.message);
   }
 }
 
+/** Try linked ChatGPT accounts in pool order, moving on when one is rate / usage limited */
+async function chatWithAccountPool(
+  res: FastifyReply,
+  body: AnthropicRequest,
+  model: string,
+  reasoning?: ReasoningLevel,
+) {
+  const pool = getCodexPool();
+  const tried = new Set<number>();
+  let lastError: any = null;
+
+  while (true) {
+    const account = await pool.pick(tried);
+    if (account === null) {
+      if (lastError) throw lastError;
+      // No linked accounts: account 1 reports "not logged in"
+      return _chatCodexOAuthInner(res, body, model, undefined, reasoning, 1);
+    }
+    tried.add(account);
+
+    try {
+      await _chatCodexOAuthInner(res, body, model, undefined, reasoning, account);
+      pool.markSuccess(account);
+      return;
+    } catch (e: any) {
+      // Switching accounts is only possible before anything reached the client
+      if (e?.statusCode !== 429 || res.raw.headersSent) throw e;
+      pool.markRateLimited(account, e.retryAfterMs, e.message.slice(0, 200));
+      lastError = e;
+    }
+  }
+}
+
 async function _chatCodexOAuthInner(
   res: FastifyReply,
   body: AnthropicRequest,
   model: string,
   apiKey?: string,
   reasoning?: ReasoningLevel,
+  account = 1,
 ) {
-  const accessToken = apiKey || (await getCodexAccessToken());
+  const accessToken = apiKey || (await getCodexAccessToken(account));
 
   // OAuth tokens use ChatGPT backend (Responses API), API keys use standard API
   const isOAuth = !apiKey;
@@ -171,9 +270,11 @@ async function _chatCodexOAuthInner(
     ? `${CHATGPT_CODEX_BASE}/responses`
     : `${OPENAI_API_BASE}/chat/completions`;
 
-  const hasTools = body.tools && body.tools.length > 0;
+  const clientTools = functionTools(body);
+  const hasTools = clientTools.length > 0;
+  const nativeSearch = wantsNativeSearch(body);
 
-  // Reasoning effort
+  // Reasoning effort: model @suffix, then the request's `thinking` budget, then the env default
   const EFFORT_MAP: Record<string, string> = {
     low: "low",
     medium: "medium",
@@ -181,17 +282,17 @@ async function _chatCodexOAuthInner(
     xhigh: "xhigh",
   };
   const reasoningEffort =
-    EFFORT_MAP[reasoning || ""] || process.env.CODEX_REASONING_EFFORT || "high";
+    EFFORT_MAP[reasoning ?? reasoningFromThinking(body) ?? ""] || process.env.CODEX_REASONING_EFFORT || "high";
 
   let reqBody: any;
 
   if (isOAuth) {
     // ── Responses API format ──
     const input = toResponsesInput(body.messages);
-    const tools: any[] = hasTools ? toResponsesTools(body.tools!) : [];
+    const tools: any[] = hasTools ? toResponsesTools(clientTools) : [];
 
-    // Add web search tool (ChatGPT backend uses "web_search")
-    tools.push({ type: "web_search" });
+    // Anthropic's web_search server tool → the backend's own "web_search"
+    if (nativeSearch) tools.push({ type: "web_search" });
 
     // system can be a string or array of {type:"text",text:"..."} objects
     const instructions = Array.isArray(body.system)
@@ -206,11 +307,16 @@ async function _chatCodexOAuthInner(
       stream: true,
       store: false, // Required by ChatGPT backend
       reasoning: { effort: reasoningEffort, summary: "auto" },
+      // Nothing is stored server-side, so ask for the reasoning itself to replay next turn,
+      // and for the pages each web search found (shown as its results)
+      include: ["reasoning.encrypted_content", "web_search_call.action.sources"],
+      ...toResponsesToolChoice(body),
     };
-    // Note: ChatGPT backend does NOT support max_output_tokens
+    // Note: ChatGPT backend does NOT support max_output_tokens, sampling params or
+    // stop sequences (those are matched locally while streaming)
 
     console.log(
-      `[codex] Responses API | model="${model}" input_items=${input.length} tools=${tools.length} reasoning=${reasoningEffort} web_search=on`,
+      `[codex] Responses API | model="${model}" input_items=${input.length} tools=${tools.length} reasoning=${reasoningEffort} web_search=${nativeSearch ? "on" : "off"}${body.tool_choice ? ` tool_choice=${body.tool_choice.type}` : ""}`,
     );
   } else {
     // ── Chat Completions API (for API key users) ──
@@ -228,11 +334,14 @@ async function _chatCodexOAuthInner(
       stream: true,
       temperature: body.temperature ?? 0.7,
       max_tokens: body.max_tokens,
-      web_search_options: { search_context_size: "medium" },
+      ...toOpenAIRequestOptions(body),
+      ...(nativeSearch && { web_search_options: { search_context_size: "medium" } }),
+      // Final chunk carries token usage
+      stream_options: { include_usage: true },
     };
 
     if (hasTools) {
-      reqBody.tools = body.tools!.map((t) => ({
+      reqBody.tools = clientTools.map((t) => ({
         type: "function" as const,
         function: {
           name: t.name,
@@ -240,6 +349,7 @@ async function _chatCodexOAuthInner(
           parameters: t.input_schema ?? { type: "object", properties: {} },
         },
       }));
+      Object.assign(reqBody, toOpenAIToolChoice(body));
     }
 
     if (
@@ -252,7 +362,7 @@ async function _chatCodexOAuthInner(
     }
 
     console.log(
-      `[codex] Chat Completions | model="${model}" messages=${messages.length} tools=${hasTools ? body.tools!.length : 0}`,
+      `[codex] Chat Completions | model="${model}" messages=${messages.length} tools=${clientTools.length}`,
     );
   }
 
@@ -268,24 +378,30 @@ async function _chatCodexOAuthInner(
       `codex_cli_rs/0.1.0 (${process.platform}; ${process.arch})`;
     headers["Accept"] = "text/event-stream";
     // ChatGPT-Account-ID is required for routing to the correct workspace
-    const accountId = getCodexAccountId();
+    const accountId = getCodexAccountId(account);
     if (accountId) {
       headers["ChatGPT-Account-ID"] = accountId;
     }
   }
 
-  const resp = await fetch(url, {
+  const resp = await fetchWithRetry(url, {
     method: "POST",
     headers,
     body: JSON.stringify(reqBody),
-  });
+  }, isOAuth ? "codex-oauth" : "openai");
 
   if (!resp.ok || !resp.body) {
     const text = await safeText(resp);
     console.error(`[codex] API error ${resp.status}: ${text}`);
-    throw new Error(
-      `OpenAI API returned ${resp.status}: ${text.slice(0, 300)}`,
-    );
+    const error = parseErrorBody(text);
+    // Usage-limit errors don't always come back as 429; treat them as one so the pool switches
+    const status = responsesErrorStatus(error?.code ?? error?.type) === 429 ? 429 : resp.status || 502;
+    const e = withStatus(status, `OpenAI API returned ${resp.status}: ${text.slice(0, 300)}`);
+    if (status === 429) {
+      // @ts-ignore
+      e.retryAfterMs = retryAfterMs(resp.headers) ?? usageLimitResetMs(error);
+    }
+    throw e;
   }
 
   // ── Stream response and convert to Anthropic SSE format ────────────
@@ -296,16 +412,29 @@ async function _chatCodexOAuthInner(
   let hasStartedThinking = false;
   let hasStartedContent = false;
 
-  // For Responses API: track function calls by output_index
-  const pendingFunctionCalls: Record<
-    number,
-    { id: string; name: string; arguments: string }
-  > = {};
-  // For Chat Completions: track tool calls by index
-  const pendingToolCalls: Record<
+  // Tool calls keyed by output_index (Responses API) or tool call index (Chat
+  // Completions). A call becomes a tool_use block once its name is known and no
+  // other call's block is open; argument chunks are forwarded while its block is
+  // the open one and buffered until then. A block stays open until its call is
+  // done, so interleaved parallel calls come out whole, in order.
+  const toolCalls: Record<
     number,
-    { id: string; name: string; arguments: string }
+    { id: string; name: string; arguments: string; sent: number; done: boolean; closed: boolean }
   > = {};
+  let openToolIdx: number | null = null;
+  let toolCallCount = 0;
+  // Final response.status / incomplete reason (Responses) or finish_reason (Chat Completions)
+  let responseStatus: string | null = null;
+  let incompleteReason: string | null = null;
+  let finishReason: string | null = null;
+  const stopper = createStopSequenceMatcher(body.stop_sequences);
+  // Text of each output_text part so far, keyed "output_index:content_index"; URL citations index into it
+  const outputTexts: Record<string, string> = {};
+
+  // Real usage arrives at the end of the stream; until then report an estimate
+  const estimatedInput = countTokens(body, isOAuth ? "codex-oauth" : "openai");
+  let usage = null as TokenUsage | null;
+  let streamError = null as { status: number; message: string; retryAfterMs: number | null } | null;
 
   function ensureMessageStarted() {
     if (!hasStartedMessage) {
@@ -320,7 +449,7 @@ async function _chatCodexOAuthInner(
           content: [],
           stop_reason: null,
           stop_sequence: null,
-          usage: { input_tokens: 0, output_tokens: 0 },
+          usage: { input_tokens: estimatedInput, output_tokens: 0 },
         },
       });
     }
@@ -328,6 +457,8 @@ async function _chatCodexOAuthInner(
 
   function ensureThinkingBlockStarted() {
     if (!hasStartedThinking) {
+      closeContentBlock();
+      closeToolBlock();
       hasStartedThinking = true;
       ensureMessageStarted();
       sendEvent(res, "content_block_start", {
@@ -349,9 +480,39 @@ async function _chatCodexOAuthInner(
     }
   }
 
+  /**
+   * Attach a reasoning signature to the open thinking block, or carry it in a
+   * redacted_thinking block when no summary was streamed
+   */
+  function emitReasoningSignature(signature: string) {
+    if (hasStartedThinking) {
+      sendEvent(res, "content_block_delta", {
+        type: "content_block_delta",
+        index: contentIndex,
+        delta: { type: "signature_delta", signature },
+      });
+      closeThinkingBlock();
+      return;
+    }
+    closeContentBlock();
+    closeToolBlock();
+    ensureMessageStarted();
+    sendEvent(res, "content_block_start", {
+      type: "content_block_start",
+      index: contentIndex,
+      content_block: { type: "redacted_thinking", data: signature },
+    });
+    sendEvent(res, "content_block_stop", {
+      type: "content_block_stop",
+      index: contentIndex,
+    });
+    contentIndex++;
+  }
+
   function ensureContentBlockStarted() {
     if (!hasStartedContent) {
       closeThinkingBlock();
+      closeToolBlock();
       hasStartedContent = true;
       ensureMessageStarted();
       sendEvent(res, "content_block_start", {
@@ -362,7 +523,24 @@ async function _chatCodexOAuthInner(
     }
   }
 
+  function sendTextDelta(text: string) {
+    ensureContentBlockStarted();
+    sendEvent(res, "content_block_delta", {
+      type: "content_block_delta",
+      index: contentIndex,
+      delta: { type: "text_delta", text },
+    });
+  }
+
+  /** Text from upstream, minus anything at or after a stop sequence */
+  function emitText(text: string) {
+    const out = stopper.push(text);
+    if (out) sendTextDelta(out);
+  }
+
   function closeContentBlock() {
+    const held = stopper.flush();
+    if (held) sendTextDelta(held);
     if (hasStartedContent) {
       sendEvent(res, "content_block_stop", {
         type: "content_block_stop",
@@ -373,6 +551,76 @@ async function _chatCodexOAuthInner(
     }
   }
 
+  function toolCallAt(idx: number) {
+    return (toolCalls[idx] ??= { id: "", name: "", arguments: "", sent: 0, done: false, closed: false });
+  }
+
+  function startToolBlock(idx: number) {
+    closeThinkingBlock();
+    closeContentBlock();
+    closeToolBlock();
+    ensureMessageStarted();
+    const tc = toolCalls[idx];
+    tc.id ||= `call_${msgId.slice(4)}_${idx}`;
+    sendEvent(res, "content_block_start", {
+      type: "content_block_start",
+      index: contentIndex,
+      content_block: { type: "tool_use", id: tc.id, name: tc.name, input: {} },
+    });
+    openToolIdx = idx;
+    toolCallCount++;
+    flushToolArgs(idx);
+  }
+
+  /** Forward argument text not yet sent for the open tool block */
+  function flushToolArgs(idx: number) {
+    const tc = toolCalls[idx];
+    if (tc.sent >= tc.arguments.length) return;
+    sendEvent(res, "content_block_delta", {
+      type: "content_block_delta",
+      index: contentIndex,
+      delta: { type: "input_json_delta", partial_json: tc.arguments.slice(tc.sent) },
+    });
+    tc.sent = tc.arguments.length;
+  }
+
+  function closeToolBlock() {
+    if (openToolIdx === null) return;
+    sendEvent(res, "content_block_stop", {
+      type: "content_block_stop",
+      index: contentIndex,
+    });
+    toolCalls[openToolIdx].closed = true;
+    contentIndex++;
+    openToolIdx = null;
+  }
+
+  /** Close the open tool block once its call is done, and start the next waiting call */
+  function advanceToolBlocks() {
+    while (openToolIdx === null || toolCalls[openToolIdx].done) {
+      closeToolBlock();
+      const next = Object.keys(toolCalls).map(Number).find((i) => toolCalls[i].name && !toolCalls[i].closed);
+      if (next === undefined) return;
+      startToolBlock(next);
+    }
+  }
+
+  /** New argument text for a call: stream it if its block is open, otherwise keep it for later */
+  function onToolArgs(idx: number) {
+    if (openToolIdx === idx) flushToolArgs(idx);
+    advanceToolBlocks();
+  }
+
+  /** The final arguments string: send whatever the deltas missed */
+  function settleToolArgs(idx: number, full: unknown) {
+    const tc = toolCalls[idx];
+    if (!tc || typeof full !== "string" || full === tc.arguments) return;
+    if (full.startsWith(tc.arguments) || tc.sent === 0) {
+      tc.arguments = full;
+      onToolArgs(idx);
+    }
+  }
+
   const reader = resp.body.getReader();
   const decoder = new TextDecoder();
 
@@ -380,6 +628,8 @@ async function _chatCodexOAuthInner(
     onEvent(event: EventSourceMessage) {
       const data = event.data;
       if (!data || data === "[DONE]") return;
+      // Everything after a stop sequence is dropped
+      if (stopper.matched() !== null) return;
       try {
         const json = JSON.parse(data);
 
@@ -399,6 +649,17 @@ async function _chatCodexOAuthInner(
   function handleResponsesEvent(json: any) {
     const type = json.type;
 
+    // Failures can arrive as events on an HTTP 200 stream
+    if (type === "response.failed" || type === "error") {
+      const err = json.response?.error ?? json.error ?? json;
+      streamError = {
+        status: responsesErrorStatus(err?.code ?? err?.type),
+        message: err?.message || JSON.stringify(json),
+        retryAfterMs: usageLimitResetMs(err),
+      };
+      return;
+    }
+
     // Reasoning summary text delta
     if (type === "response.reasoning_summary_text.delta") {
       const text = json.delta;
@@ -412,81 +673,109 @@ async function _chatCodexOAuthInner(
       }
     }
 
+    // Reasoning item done - hand its encrypted content to the client for the next turn
+    if (type === "response.output_item.done" && json.item?.type === "reasoning") {
+      const encrypted = json.item.encrypted_content;
+      if (typeof encrypted === "string" && encrypted) {
+        emitReasoningSignature(REASONING_SIGNATURE_PREFIX + encrypted);
+      } else {
+        closeThinkingBlock();
+      }
+    }
+
     // Output text delta (main response text)
     if (type === "response.output_text.delta") {
       const text = json.delta;
       if (text) {
-        ensureContentBlockStarted();
-        sendEvent(res, "content_block_delta", {
-          type: "content_block_delta",
-          index: contentIndex,
-          delta: { type: "text_delta", text },
-        });
+        const key = `${json.output_index ?? 0}:${json.content_index ?? 0}`;
+        outputTexts[key] = (outputTexts[key] ?? "") + text;
+        emitText(text);
       }
     }
 
+    // URL citation from web search - attach it to the text block it annotates
+    if (type === "response.output_text.annotation.added") {
+      const text = outputTexts[`${json.output_index ?? 0}:${json.content_index ?? 0}`] ?? "";
+      const citation = fromUrlCitation(json.annotation, text);
+      if (citation && hasStartedContent) sendCitation(res, contentIndex, citation);
+    }
+
+    // Function call started - open its tool_use block right away
+    if (type === "response.output_item.added" && json.item?.type === "function_call") {
+      const idx = json.output_index ?? 0;
+      const tc = toolCallAt(idx);
+      tc.id = json.item.call_id || json.item.id || tc.id;
+      tc.name = json.item.name || tc.name;
+      if (json.item.arguments) tc.arguments = json.item.arguments;
+      advanceToolBlocks();
+    }
+
     // Function call arguments delta
     if (type === "response.function_call_arguments.delta") {
       const idx = json.output_index ?? 0;
-      if (!pendingFunctionCalls[idx]) {
-        pendingFunctionCalls[idx] = { id: "", name: "", arguments: "" };
-      }
-      pendingFunctionCalls[idx].arguments += json.delta || "";
+      toolCallAt(idx).arguments += json.delta || "";
+      onToolArgs(idx);
     }
 
-    // Function call arguments done - capture id and name
+    // Function call arguments done - full arguments available
     if (type === "response.function_call_arguments.done") {
       const idx = json.output_index ?? 0;
-      if (!pendingFunctionCalls[idx]) {
-        pendingFunctionCalls[idx] = { id: "", name: "", arguments: "" };
-      }
-      // Full arguments available
-      if (json.arguments) pendingFunctionCalls[idx].arguments = json.arguments;
-    }
-
-    // Output item added - capture function call metadata
-    if (type === "response.output_item.added") {
-      const item = json.item;
-      if (item?.type === "function_call") {
-        const idx = json.output_index ?? 0;
-        pendingFunctionCalls[idx] = {
-          id: item.call_id || item.id || `call_${Date.now()}`,
-          name: item.name || "",
-          arguments: "",
-        };
-      }
+      toolCallAt(idx).done = true;
+      settleToolArgs(idx, json.arguments);
+      advanceToolBlocks();
     }
 
     // Output item done - finalize function call
-    if (type === "response.output_item.done") {
-      const item = json.item;
-      if (item?.type === "function_call") {
-        const idx = json.output_index ?? 0;
-        if (pendingFunctionCalls[idx]) {
-          pendingFunctionCalls[idx].id =
-            item.call_id || item.id || pendingFunctionCalls[idx].id;
-          pendingFunctionCalls[idx].name =
-            item.name || pendingFunctionCalls[idx].name;
-          if (item.arguments)
-            pendingFunctionCalls[idx].arguments = item.arguments;
-        }
+    if (type === "response.output_item.done" && json.item?.type === "function_call") {
+      const idx = json.output_index ?? 0;
+      const tc = toolCallAt(idx);
+      if (!tc.closed && openToolIdx !== idx) {
+        // Not started yet; the name may only arrive now
+        tc.id = json.item.call_id || json.item.id || tc.id;
+        tc.name = json.item.name || tc.name;
       }
+      tc.done = true;
+      settleToolArgs(idx, json.item.arguments);
+      advanceToolBlocks();
+    }
+
+    if (type === "response.completed" || type === "response.incomplete") {
+      responseStatus = json.response?.status ?? (type === "response.incomplete" ? "incomplete" : "completed");
+      incompleteReason = json.response?.incomplete_details?.reason ?? null;
     }
 
-    // Web search call - log it
+    // Final usage (also sent on incomplete responses)
     if (
-      type === "response.output_item.added" &&
-      json.item?.type === "web_search_call"
+      (type === "response.completed" || type === "response.incomplete") &&
+      json.response?.usage
     ) {
-      console.log(
-        `[codex] Web search: ${JSON.stringify(json.item.action || {})}`,
-      );
+      usage = fromResponsesUsage(json.response.usage);
+    }
+
+    // Web search call done - show the search and what it found
+    if (type === "response.output_item.done" && json.item?.type === "web_search_call") {
+      const action = json.item.action || {};
+      console.log(`[codex] Web search: ${JSON.stringify(action)}`);
+      if (action.type === "search" || action.query) {
+        closeThinkingBlock();
+        closeContentBlock();
+        closeToolBlock();
+        ensureMessageStarted();
+        const results = (action.sources ?? [])
+          .filter((src: any) => src?.url)
+          .map((src: any) => ({ url: src.url, title: src.title }));
+        contentIndex = sendWebSearchBlocks(res, contentIndex, { id: json.item.id, query: action.query ?? "", results });
+      }
     }
   }
 
   function handleChatCompletionsEvent(json: any) {
+    // Final chunk carries usage with an empty choices array
+    if (json.usage) usage = fromChatCompletionsUsage(json.usage);
+
     const choice = json.choices?.[0];
     if (!choice) return;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
     const delta = choice.delta;
     if (!delta) return;
 
@@ -503,26 +792,18 @@ async function _chatCodexOAuthInner(
 
     // Handle text content
     const textChunk = delta.content || "";
-    if (textChunk) {
-      ensureContentBlockStarted();
-      sendEvent(res, "content_block_delta", {
-        type: "content_block_delta",
-        index: contentIndex,
-        delta: { type: "text_delta", text: textChunk },
-      });
-    }
+    if (textChunk) emitText(textChunk);
 
     // Handle streaming tool calls
     if (delta.tool_calls) {
       for (const tc of delta.tool_calls) {
         const idx = tc.index ?? 0;
-        if (!pendingToolCalls[idx]) {
-          pendingToolCalls[idx] = { id: "", name: "", arguments: "" };
-        }
-        if (tc.id) pendingToolCalls[idx].id = tc.id;
-        if (tc.function?.name) pendingToolCalls[idx].name += tc.function.name;
-        if (tc.function?.arguments)
-          pendingToolCalls[idx].arguments += tc.function.arguments;
+        const call = toolCallAt(idx);
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        if (tc.function?.arguments) call.arguments += tc.function.arguments;
+        call.done = isCompleteToolArguments(call.arguments);
+        onToolArgs(idx);
       }
     }
   }
@@ -531,56 +812,56 @@ async function _chatCodexOAuthInner(
     const { value, done } = await reader.read();
     if (done) break;
     parser.feed(decoder.decode(value, { stream: true }));
+    // Stop early on a stream-level error before any content
+    if (streamError && !hasStartedMessage) break;
+    // Hit a stop sequence: no need to read the rest
+    if (stopper.matched() !== null) {
+      reader.cancel().catch(() => {});
+      break;
+    }
+  }
+
+  // Nothing was sent yet, so surface it as a real error (lets the gateway fall back)
+  if (streamError && !hasStartedMessage) {
+    console.error(`[codex] Stream error ${streamError.status}: ${streamError.message.slice(0, 200)}`);
+    const e = withStatus(streamError.status, `OpenAI API returned ${streamError.status}: ${streamError.message.slice(0, 300)}`);
+    // @ts-ignore
+    e.retryAfterMs = streamError.retryAfterMs;
+    throw e;
   }
+  if (streamError) console.error(`[codex] Stream error after output started: ${streamError.message.slice(0, 200)}`);
 
   // ── Finalize ────────────────────────────────────────────────────────
 
   ensureMessageStarted();
   closeThinkingBlock();
   closeContentBlock();
-
-  // Emit tool_use blocks from either API format
-  const allToolCalls = isOAuth
-    ? Object.values(pendingFunctionCalls)
-    : Object.values(pendingToolCalls);
-
-  if (allToolCalls.length > 0) {
-    for (const tc of allToolCalls) {
-      sendEvent(res, "content_block_start", {
-        type: "content_block_start",
-        index: contentIndex,
-        content_block: {
-          type: "tool_use",
-          id: tc.id,
-          name: tc.name,
-          input: {},
-        },
-      });
-
-      sendEvent(res, "content_block_delta", {
-        type: "content_block_delta",
-        index: contentIndex,
-        delta: {
-          type: "input_json_delta",
-          partial_json: tc.arguments,
-        },
-      });
-
-      sendEvent(res, "content_block_stop", {
-        type: "content_block_stop",
-        index: contentIndex,
-      });
-
-      contentIndex++;
-    }
+  // Calls still waiting for a block go out now, in order
+  for (const tc of Object.values(toolCalls)) tc.done = true;
+  advanceToolBlocks();
+  closeToolBlock();
+
+  const stopSequence = stopper.matched();
+  const stopReason = stopSequence !== null
+    ? "stop_sequence"
+    : isOAuth
+      ? fromResponsesStatus(responseStatus, incompleteReason, toolCallCount > 0)
+      : fromChatFinishReason(finishReason, toolCallCount > 0);
+  if (stopReason !== "end_turn" && stopReason !== "tool_use") {
+    console.log(`[codex] Stop reason: ${stopReason} (${isOAuth ? `status=${responseStatus} reason=${incompleteReason}` : `finish_reason=${finishReason}`})`);
   }
 
-  const stopReason = allToolCalls.length > 0 ? "tool_use" : "end_turn";
+  if (usage) {
+    console.log(`[codex] Usage: ${formatUsage(usage)}`);
+    reportUsage(res, usage);
+  }
 
   sendEvent(res, "message_delta", {
     type: "message_delta",
-    delta: { stop_reason: stopReason, stop_sequence: null },
-    usage: { output_tokens: 0 },
+    delta: { stop_reason: stopReason, stop_sequence: stopSequence },
+    usage: usage
+      ? toAnthropicUsage(usage)
+      : { input_tokens: estimatedInput, output_tokens: 0 },
   });
   sendEvent(res, "message_stop", { type: "message_stop" });
 
@@ -602,6 +883,8 @@ function toOpenAIMessagesFromAnthropic(messages: AnthropicMessage[]) {
     const toolResults: any[] = [];
     for (const block of m.content as AnthropicContentBlock[]) {
       if (block.type === "text") textParts.push(block.text);
+      // Text-only path: documents are sent as their extracted text
+      else if (block.type === "document") textParts.push(documentText(block));
       else if (block.type === "tool_use") {
         toolCalls.push({
           id: block.id,
@@ -615,16 +898,11 @@ function toOpenAIMessagesFromAnthropic(messages: AnthropicMessage[]) {
           },
         });
       } else if (block.type === "tool_result") {
-        toolResults.push({
-          role: "tool",
-          tool_call_id: block.tool_use_id,
-          content:
-            typeof block.content === "string"
-              ? block.content
-              : JSON.stringify(block.content),
-        });
+        toolResults.push(block);
       }
     }
+    // Tool results answer the previous assistant turn, so they go before any user text
+    out.push(...toOpenAIToolMessages(toolResults));
     if (m.role === "assistant" && toolCalls.length > 0) {
       out.push({
         role: "assistant",
@@ -634,11 +912,44 @@ function toOpenAIMessagesFromAnthropic(messages: AnthropicMessage[]) {
     } else if (textParts.length > 0) {
       out.push({ role: m.role, content: textParts.join("") });
     }
-    for (const tr of toolResults) out.push(tr);
   }
   return out;
 }
 
+/** Responses API error codes → HTTP status */
+function responsesErrorStatus(code: unknown): number {
+  if (code === "rate_limit_exceeded" || code === "usage_limit_reached" || code === "insufficient_quota") return 429;
+  if (code === "server_is_overloaded" || code === "slow_down") return 503;
+  if (code === "server_error") return 500;
+  if (code === "invalid_prompt" || code === "context_length_exceeded") return 400;
+  return 502;
+}
+
+/** The `error` object of a JSON error body, if any */
+function parseErrorBody(text: string): any {
+  try {
+    const json = JSON.parse(text);
+    return json?.error ?? json?.detail ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Time until a ChatGPT usage window resets (`resets_in_seconds` / `resets_at`), in ms */
+function usageLimitResetMs(error: any, now = Date.now()): number | null {
+  if (!error || typeof error !== "object") return null;
+  if (typeof error.resets_in_seconds === "number") return error.resets_in_seconds * 1000;
+  if (typeof error.resets_at === "number") return Math.max(0, error.resets_at * 1000 - now);
+  return null;
+}
+
+function withStatus(status: number, message: string) {
+  const e = new Error(message);
+  // @ts-ignore
+  e.statusCode = status;
+  return e;
+}
+
 async function safeText(resp: Response) {
   try {
     return await resp.text();
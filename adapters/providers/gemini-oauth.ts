@@ -5,12 +5,21 @@ import { FastifyReply } from "fastify";
 import { createParser } from "eventsource-parser";
 import type { EventSourceMessage } from "eventsource-parser";
 import { sendEvent } from "../sse.js";
-import { getAccessToken, loadTokens } from "../google-auth.js";
+import { fetchWithRetry, retryAfterMs } from "../retry.js";
+import { getAccessToken, getGooglePool, loadTokens } from "../google-auth.js";
+import { countTokens } from "../token-count.js";
+import { formatUsage, fromGeminiUsage, toAnthropicUsage, reportUsage } from "../usage.js";
+import { fromGeminiFinishReason, createStopSequenceMatcher } from "../stop-reason.js";
+import { documentText } from "../documents.js";
+import { fromGeminiGrounding, sendCitation, sendWebSearchBlocks } from "../citations.js";
+import { toGeminiToolConfig, functionTools, wantsNativeSearch, REASONING_BUDGETS, clampGemini25Budget, reasoningFromThinking, thinkingBudget, splitToolResult } from "../map.js";
 import type {
   AnthropicRequest,
   AnthropicMessage,
   AnthropicTool,
   AnthropicContentBlock,
+  AnthropicImageSource,
+  TokenUsage,
 } from "../types.js";
 import * as crypto from "crypto";
 
@@ -22,6 +31,26 @@ const GL_ENDPOINT =
   process.env.GEMINI_BASE_URL ||
   "https://generativelanguage.googleapis.com/v1beta";
 
+// ── Thought signatures ─────────────────────────────────────────────────
+// Gemini 3 validates the thoughtSignature of replayed function calls. Signatures
+// from thought parts travel in the thinking block `signature` (prefixed, so other
+// providers' signatures are never sent here); those on function calls are kept
+// by tool_use id, since Anthropic tool_use blocks have nowhere to carry them.
+
+const THOUGHT_SIGNATURE_PREFIX = "gemini-thought:";
+// Accepted by Gemini for history it didn't produce (or whose signature we lost)
+const SKIP_SIGNATURE = "skip_thought_signature_validator";
+const MAX_CALL_SIGNATURES = 2000;
+
+const callSignatures = new Map<string, string>();
+
+function rememberCallSignature(toolUseId: string, signature: string) {
+  callSignatures.set(toolUseId, signature);
+  if (callSignatures.size > MAX_CALL_SIGNATURES) {
+    callSignatures.delete(callSignatures.keys().next().value!);
+  }
+}
+
 // ── Format converters: Anthropic → Gemini ──────────────────────────────
 
 /** Find tool name by tool_use_id in message history */
@@ -37,8 +66,21 @@ function findToolName(messages: AnthropicMessage[], toolUseId: string): string {
   return "unknown_tool";
 }
 
+/** Best-effort image MIME type from a URL's extension (Gemini requires one for fileData) */
+function imageMimeFromUrl(url: string): string {
+  const ext = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  if (ext === "png" || ext === "gif" || ext === "webp") return `image/${ext}`;
+  return "image/jpeg";
+}
+
+function toGeminiImagePart(source: AnthropicImageSource) {
+  return source.type === "url"
+    ? { fileData: { mimeType: imageMimeFromUrl(source.url), fileUri: source.url } }
+    : { inlineData: { mimeType: source.media_type, data: source.data } };
+}
+
 /** Convert Anthropic content blocks to Gemini parts */
-function toGeminiParts(
+export function toGeminiParts(
   content: AnthropicMessage["content"],
   allMessages: AnthropicMessage[]
 ): any[] {
@@ -50,13 +92,22 @@ function toGeminiParts(
   for (const block of content as AnthropicContentBlock[]) {
     if (block.type === "text") {
       if (block.text) parts.push({ text: block.text });
+    } else if (block.type === "thinking") {
+      // Only thoughts Gemini produced go back, with their signature
+      if (block.signature?.startsWith(THOUGHT_SIGNATURE_PREFIX)) {
+        parts.push({
+          text: block.thinking,
+          thought: true,
+          thoughtSignature: block.signature.slice(THOUGHT_SIGNATURE_PREFIX.length),
+        });
+      }
     } else if (block.type === "image") {
-      parts.push({
-        inlineData: {
-          mimeType: block.source.media_type,
-          data: block.source.data,
-        },
-      });
+      parts.push(toGeminiImagePart(block.source));
+    } else if (block.type === "document") {
+      const source = block.source;
+      if (source.type === "text") parts.push({ text: documentText(block) });
+      else if (source.type === "url") parts.push({ fileData: { mimeType: "application/pdf", fileUri: source.url } });
+      else parts.push({ inlineData: { mimeType: source.media_type || "application/pdf", data: source.data } });
     } else if (block.type === "tool_use") {
       parts.push({
         functionCall: {
@@ -66,20 +117,19 @@ function toGeminiParts(
               ? JSON.parse(block.input)
               : block.input,
         },
-        thoughtSignature: "skip_thought_signature_validator",
+        thoughtSignature: callSignatures.get(block.id) ?? SKIP_SIGNATURE,
       });
     } else if (block.type === "tool_result") {
       const functionName = findToolName(allMessages, block.tool_use_id);
-      const resultContent =
-        typeof block.content === "string"
-          ? block.content
-          : JSON.stringify(block.content);
+      const { text, images } = splitToolResult(block.content);
       parts.push({
         functionResponse: {
           name: functionName,
-          response: { content: resultContent },
+          response: { content: text },
         },
       });
+      // Images from the tool go right after its response as regular parts
+      for (const img of images) parts.push(toGeminiImagePart(img));
     }
   }
 
@@ -156,7 +206,7 @@ export async function chatGeminiOAuth(
   apiKey?: string,
   reasoning?: ReasoningLevel
 ) {
-  // Helper to send error as SSE (since headers are already flushed by the gateway)
+  // Helper to send error as SSE (once output has started the HTTP status can't change)
   function sendSSEError(msg: string) {
     try {
       const id = `msg_${Date.now()}`;
@@ -171,20 +221,56 @@ export async function chatGeminiOAuth(
   }
 
   try {
-    return await _chatGeminiOAuthInner(res, body, model, apiKey, reasoning as ReasoningLevel | undefined);
+    if (apiKey) return await _chatGeminiOAuthInner(res, body, model, apiKey, reasoning);
+    return await chatWithAccountPool(res, body, model, reasoning);
   } catch (e: any) {
     console.error(`[gemini-oauth] ERROR: ${e.message}`);
+    // Nothing sent yet (stream:false collection) - let the gateway answer with a real error
+    if (!res.raw.headersSent) throw e;
     sendSSEError(e.message);
   }
 }
 
+/** Try linked Google accounts in pool order, moving on when one is rate limited */
+async function chatWithAccountPool(
+  res: FastifyReply,
+  body: AnthropicRequest,
+  model: string,
+  reasoning?: ReasoningLevel
+) {
+  const pool = getGooglePool();
+  const tried = new Set<number>();
+  let lastError: any = null;
+
+  while (true) {
+    const account = await pool.pick(tried);
+    if (account === null) {
+      if (lastError) throw lastError;
+      // No linked accounts: account 1 reports "not logged in"
+      return _chatGeminiOAuthInner(res, body, model, undefined, reasoning, 1);
+    }
+    tried.add(account);
+
+    try {
+      await _chatGeminiOAuthInner(res, body, model, undefined, reasoning, account);
+      pool.markSuccess(account);
+      return;
+    } catch (e: any) {
+      // Switching accounts is only possible before anything reached the client
+      if (e?.statusCode !== 429 || res.raw.headersSent) throw e;
+      pool.markRateLimited(account, e.retryAfterMs, e.message.slice(0, 200));
+      lastError = e;
+    }
+  }
+}
+
 async function _chatGeminiOAuthInner(
   res: FastifyReply,
   body: AnthropicRequest,
   model: string,
   apiKey?: string,
   reasoning?: ReasoningLevel,
-  accountHint = 1
+  account = 1
 ) {
   // If API key provided, use it directly (no OAuth needed)
   // Otherwise use OAuth access token (auto-refreshes if expired)
@@ -195,8 +281,8 @@ async function _chatGeminiOAuthInner(
     accessToken = apiKey;
     tokens = null;
   } else {
-    tokens = await loadTokens(accountHint);
-    accessToken = await getAccessToken(accountHint);
+    tokens = await loadTokens(account);
+    accessToken = await getAccessToken(account);
   }
 
   const projectId = tokens?.project_id;
@@ -214,53 +300,64 @@ async function _chatGeminiOAuthInner(
   // Build thinking config based on model family
   // Gemini 3: uses thinkingLevel (LOW/MEDIUM/HIGH)
   // Gemini 2.5: uses thinkingBudget (number of tokens)
+  // The model @suffix wins over the request's `thinking` parameter
+  const requestedBudget = reasoning ? undefined : thinkingBudget(body);
+  const level = reasoning ?? reasoningFromThinking(body);
   let thinkingConfig: any;
   if (isGemini3) {
     let thinkingLevel: string;
     if (isLimitedThinking) {
       // gemini-3-pro-preview: only LOW and HIGH
       const LIMITED_LEVELS: Record<string, string> = { low: "LOW", medium: "HIGH", high: "HIGH", xhigh: "HIGH" };
-      thinkingLevel = LIMITED_LEVELS[reasoning || ""] || "HIGH";
-      if (reasoning === "medium") {
+      thinkingLevel = LIMITED_LEVELS[level || ""] || "HIGH";
+      if (level === "medium") {
         console.log(`[gemini] Note: ${model} doesn't support MEDIUM, using HIGH instead`);
       }
     } else {
       // 3.1-pro, 3-flash, 3.1-flash: full range
       const THINKING_LEVELS: Record<string, string> = { low: "LOW", medium: "MEDIUM", high: "HIGH", xhigh: "HIGH" };
-      thinkingLevel = THINKING_LEVELS[reasoning || ""] || "HIGH";
+      thinkingLevel = THINKING_LEVELS[level || ""] || "HIGH";
     }
     thinkingConfig = { includeThoughts: true, thinkingLevel };
-    console.log(`[gemini] Gemini 3 model: thinkingLevel=${thinkingLevel}${reasoning ? ` (${reasoning})` : ""}`);
+    console.log(`[gemini] Gemini 3 model: thinkingLevel=${thinkingLevel}${level ? ` (${level})` : ""}`);
   } else {
-    const THINKING_BUDGETS: Record<string, number> = { low: 1024, medium: 8192, high: 32768, xhigh: 65536 };
-    const thinkingBudget = THINKING_BUDGETS[reasoning || ""] || THINKING_BUDGETS.high;
+    const thinkingBudget = clampGemini25Budget(model, requestedBudget ?? REASONING_BUDGETS[level ?? "high"]);
     thinkingConfig = { includeThoughts: true, thinkingBudget };
-    if (reasoning) {
-      console.log(`[gemini] Gemini 2.5 model: thinkingBudget=${thinkingBudget} (${reasoning})`);
+    if (level) {
+      console.log(`[gemini] Gemini 2.5 model: thinkingBudget=${thinkingBudget} (${requestedBudget ? "thinking.budget_tokens" : level})`);
     }
   }
 
+  // topP / topK default to the Gemini CLI's values when the client doesn't set them
   const generationConfig: any = {
     temperature: body.temperature ?? 1,
-    topP: 0.95,
-    topK: 64,
+    topP: body.top_p ?? 0.95,
+    topK: body.top_k ?? 64,
     thinkingConfig,
   };
   if (body.max_tokens !== undefined) {
     generationConfig.maxOutputTokens = body.max_tokens;
   }
+  if (body.stop_sequences?.length) {
+    // Gemini takes at most 5; the rest are matched locally while streaming
+    generationConfig.stopSequences = body.stop_sequences.slice(0, 5);
+  }
 
   // Tools: function declarations + Google Search grounding
   const tools: any[] = [];
-  if (body.tools && body.tools.length > 0) {
-    tools.push(...toGeminiTools(body.tools));
+  const clientTools = functionTools(body);
+  if (clientTools.length > 0) {
+    tools.push(...toGeminiTools(clientTools));
     console.log(
-      `[gemini] Sending ${body.tools.length} tools as Gemini function declarations`
+      `[gemini] Sending ${clientTools.length} tools as Gemini function declarations`
     );
   }
-  // Add Google Search grounding tool
-  tools.push({ google_search: {} });
-  console.log(`[gemini] Google Search grounding enabled`);
+  // Anthropic's web_search server tool → Google Search grounding
+  const toolConfig = toGeminiToolConfig(body);
+  if (wantsNativeSearch(body)) {
+    tools.push({ google_search: {} });
+    console.log(`[gemini] Google Search grounding enabled`);
+  }
 
   let url: string;
   let reqBody: any;
@@ -291,6 +388,7 @@ async function _chatGeminiOAuthInner(
         contents,
         generationConfig,
         tools,
+        ...(toolConfig && { toolConfig }),
       },
     };
     console.log(
@@ -315,6 +413,7 @@ async function _chatGeminiOAuthInner(
       ...(systemInstruction && { systemInstruction }),
       generationConfig,
       tools,
+      ...(toolConfig && { toolConfig }),
     };
     console.log(`[gemini] Standard API | model="${model}" auth=${apiKey ? "api-key" : "oauth"}`);
   }
@@ -335,26 +434,22 @@ async function _chatGeminiOAuthInner(
     headers["Client-Metadata"] = "ideType=IDE_UNSPECIFIED,platform=PLATFORM_UNSPECIFIED,pluginType=GEMINI";
   }
 
-  const resp = await fetch(url, {
+  const resp = await fetchWithRetry(url, {
     method: "POST",
     headers,
     body: reqJson,
-  });
+  }, apiKey ? "gemini" : "gemini-oauth");
 
   if (!resp.ok || !resp.body) {
     const text = await safeText(resp);
     console.error(`[gemini-oauth] API error ${resp.status}: ${text}`);
-
-    // 429 failover: if account 1 hits rate limit, retry with account 2
-    if (resp.status === 429 && !apiKey && accountHint === 1) {
-      const acct2 = await loadTokens(2);
-      if (acct2) {
-        console.log("[gemini-oauth] Account 1 hit 429, retrying with account 2...");
-        return _chatGeminiOAuthInner(res, body, model, undefined, reasoning, 2);
-      }
+    const e = withStatus(resp.status || 502, `Gemini API returned ${resp.status}: ${text.slice(0, 300)}`);
+    // Tells the account pool how long this account should cool down
+    if (resp.status === 429) {
+      // @ts-ignore
+      e.retryAfterMs = retryAfterMs(resp.headers) ?? retryDelayMs(text);
     }
-
-    throw new Error(`Gemini API returned ${resp.status}: ${text.slice(0, 300)}`);
+    throw e;
   }
 
   // ── Stream response and convert to Anthropic SSE format ──────────────
@@ -365,8 +460,17 @@ async function _chatGeminiOAuthInner(
   let hasStartedThinking = false;
   let hasStartedContent = false;
 
-  // Accumulate function calls from streaming chunks
-  const pendingToolCalls: { id: string; name: string; args: any }[] = [];
+  // Function calls arrive whole, so each one becomes a complete tool_use block right away
+  let toolCallCount = 0;
+  // Last candidate finishReason, or the prompt's blockReason when Gemini refused to answer
+  let finishReason: string | null = null;
+  const stopper = createStopSequenceMatcher(body.stop_sequences);
+  // Google Search grounding; the last chunk carries the complete metadata
+  let grounding: any = null;
+
+  // usageMetadata rides on every chunk; the last one has the final totals
+  const estimatedInput = countTokens(body, "gemini-oauth");
+  let usage = null as TokenUsage | null;
 
   function ensureMessageStarted() {
     if (!hasStartedMessage) {
@@ -381,7 +485,7 @@ async function _chatGeminiOAuthInner(
           content: [],
           stop_reason: null,
           stop_sequence: null,
-          usage: { input_tokens: 0, output_tokens: 0 },
+          usage: { input_tokens: usage?.inputTokens ?? estimatedInput, output_tokens: 0 },
         },
       });
     }
@@ -389,6 +493,7 @@ async function _chatGeminiOAuthInner(
 
   function ensureThinkingBlockStarted() {
     if (!hasStartedThinking) {
+      closeContentBlock();
       hasStartedThinking = true;
       ensureMessageStarted();
       sendEvent(res, "content_block_start", {
@@ -423,7 +528,24 @@ async function _chatGeminiOAuthInner(
     }
   }
 
+  function sendTextDelta(text: string) {
+    ensureContentBlockStarted();
+    sendEvent(res, "content_block_delta", {
+      type: "content_block_delta",
+      index: contentIndex,
+      delta: { type: "text_delta", text },
+    });
+  }
+
+  /** Text from upstream, minus anything at or after a stop sequence */
+  function emitText(text: string) {
+    const out = stopper.push(text);
+    if (out) sendTextDelta(out);
+  }
+
   function closeContentBlock() {
+    const held = stopper.flush();
+    if (held) sendTextDelta(held);
     if (hasStartedContent) {
       sendEvent(res, "content_block_stop", {
         type: "content_block_stop",
@@ -434,16 +556,64 @@ async function _chatGeminiOAuthInner(
     }
   }
 
+  function emitToolUse(name: string, args: any, thoughtSignature?: string) {
+    closeThinkingBlock();
+    closeContentBlock();
+    ensureMessageStarted();
+    const id = `toolu_${crypto.randomBytes(12).toString("hex")}`;
+    if (thoughtSignature) rememberCallSignature(id, thoughtSignature);
+    sendEvent(res, "content_block_start", {
+      type: "content_block_start",
+      index: contentIndex,
+      content_block: {
+        type: "tool_use",
+        id,
+        name,
+        input: {},
+      },
+    });
+    sendEvent(res, "content_block_delta", {
+      type: "content_block_delta",
+      index: contentIndex,
+      delta: { type: "input_json_delta", partial_json: JSON.stringify(args) },
+    });
+    sendEvent(res, "content_block_stop", {
+      type: "content_block_stop",
+      index: contentIndex,
+    });
+    contentIndex++;
+    toolCallCount++;
+  }
+
+  /**
+   * Sources for a grounded answer: citations on the answer's text block (while
+   * it's still open), then the searches Gemini ran as web search blocks
+   */
+  function emitGrounding() {
+    if (!grounding) return;
+    const { search, citations } = fromGeminiGrounding(grounding);
+    if (hasStartedContent) {
+      for (const citation of citations) sendCitation(res, contentIndex, citation);
+    }
+    closeContentBlock();
+    if (search) {
+      console.log(`[gemini] Grounded on ${search.results.length} source(s) for "${search.query}"`);
+      contentIndex = sendWebSearchBlocks(res, contentIndex, search);
+    }
+  }
+
   const reader = resp.body.getReader();
   const decoder = new TextDecoder();
 
   // Track SSE-level errors (Code Assist returns HTTP 200 but embeds errors in the stream)
-  let streamError: { status: number; message: string } | null = null;
+  let streamError = null as { status: number; message: string } | null;
 
   const parser = createParser({
     onEvent(event: EventSourceMessage) {
       const data = event.data;
       if (!data) return;
+      // Everything after a stop sequence is dropped
+      if (stopper.matched() !== null) return;
       try {
         const json = JSON.parse(data);
 
@@ -459,36 +629,40 @@ async function _chatGeminiOAuthInner(
 
         // Handle both Code Assist (wrapped) and standard API (unwrapped) responses
         const candidateData = json.response || json;
+        if (candidateData?.usageMetadata) usage = fromGeminiUsage(candidateData.usageMetadata);
+        if (candidateData?.promptFeedback?.blockReason) finishReason = "SAFETY";
         const candidate = candidateData?.candidates?.[0];
+        if (candidate?.finishReason) finishReason = candidate.finishReason;
+        if (candidate?.groundingMetadata) grounding = candidate.groundingMetadata;
         if (!candidate?.content?.parts) return;
 
         for (const part of candidate.content.parts) {
           // Handle thinking/reasoning (Gemini 2.5+ models)
-          if (part.thought === true && part.text) {
+          if (part.thought === true && (part.text || part.thoughtSignature)) {
             ensureThinkingBlockStarted();
-            sendEvent(res, "content_block_delta", {
-              type: "content_block_delta",
-              index: contentIndex,
-              delta: { type: "thinking_delta", thinking: part.text },
-            });
+            if (part.text) {
+              sendEvent(res, "content_block_delta", {
+                type: "content_block_delta",
+                index: contentIndex,
+                delta: { type: "thinking_delta", thinking: part.text },
+              });
+            }
+            if (part.thoughtSignature) {
+              sendEvent(res, "content_block_delta", {
+                type: "content_block_delta",
+                index: contentIndex,
+                delta: { type: "signature_delta", signature: THOUGHT_SIGNATURE_PREFIX + part.thoughtSignature },
+              });
+            }
           }
-          // Handle regular text
+          // Handle regular text (a signature on a text part is optional to send back, so it's dropped)
           else if (part.text && part.thought !== true) {
-            ensureContentBlockStarted();
-            sendEvent(res, "content_block_delta", {
-              type: "content_block_delta",
-              index: contentIndex,
-              delta: { type: "text_delta", text: part.text },
-            });
+            emitText(part.text);
           }
 
           // Handle function calls
           if (part.functionCall) {
-            pendingToolCalls.push({
-              id: `toolu_${crypto.randomBytes(12).toString("hex")}`,
-              name: part.functionCall.name,
-              args: part.functionCall.args || {},
-            });
+            emitToolUse(part.functionCall.name, part.functionCall.args || {}, part.thoughtSignature);
           }
         }
       } catch {
@@ -503,66 +677,46 @@ async function _chatGeminiOAuthInner(
     parser.feed(decoder.decode(value, { stream: true }));
     // Early exit if we detected a stream-level error before any content
     if (streamError && !hasStartedMessage) break;
+    // Hit a stop sequence: no need to read the rest
+    if (stopper.matched() !== null) {
+      reader.cancel().catch(() => {});
+      break;
+    }
   }
 
   // Handle errors that came through the SSE stream (HTTP 200 but error in body)
   if (streamError && !hasStartedMessage) {
     console.error(`[gemini-oauth] Stream error ${streamError.status}: ${streamError.message.slice(0, 200)}`);
-    if (streamError.status === 429 && !apiKey && accountHint === 1) {
-      const acct2 = await loadTokens(2);
-      if (acct2) {
-        console.log("[gemini-oauth] Account 1 hit 429 (stream), retrying with account 2...");
-        return _chatGeminiOAuthInner(res, body, model, undefined, reasoning, 2);
-      }
+    const e = withStatus(streamError.status || 502, `Gemini API returned ${streamError.status}: ${streamError.message.slice(0, 300)}`);
+    if (streamError.status === 429) {
+      // @ts-ignore
+      e.retryAfterMs = retryDelayMs(streamError.message);
     }
-    throw new Error(`Gemini API returned ${streamError.status}: ${streamError.message.slice(0, 300)}`);
+    throw e;
   }
 
-  // ── Finalize: close blocks and emit tool_use if any ──────────────────
+  // ── Finalize: close open blocks ─────────────────────────────────────
 
   ensureMessageStarted();
   closeThinkingBlock();
+  emitGrounding();
   closeContentBlock();
 
-  // Emit tool_use content blocks
-  if (pendingToolCalls.length > 0) {
-    for (const tc of pendingToolCalls) {
-      sendEvent(res, "content_block_start", {
-        type: "content_block_start",
-        index: contentIndex,
-        content_block: {
-          type: "tool_use",
-          id: tc.id,
-          name: tc.name,
-          input: {},
-        },
-      });
-
-      sendEvent(res, "content_block_delta", {
-        type: "content_block_delta",
-        index: contentIndex,
-        delta: {
-          type: "input_json_delta",
-          partial_json: JSON.stringify(tc.args),
-        },
-      });
-
-      sendEvent(res, "content_block_stop", {
-        type: "content_block_stop",
-        index: contentIndex,
-      });
-
-      contentIndex++;
-    }
+  const stopSequence = stopper.matched();
+  const stopReason = stopSequence !== null ? "stop_sequence" : fromGeminiFinishReason(finishReason, toolCallCount > 0);
+  if (stopReason !== "end_turn" && stopReason !== "tool_use") {
+    console.log(`[gemini] Stop reason: ${stopReason} (finishReason=${finishReason})`);
   }
 
-  // Stop reason
-  const stopReason = pendingToolCalls.length > 0 ? "tool_use" : "end_turn";
+  if (usage) {
+    console.log(`[gemini] Usage: ${formatUsage(usage)}`);
+    reportUsage(res, usage);
+  }
 
   sendEvent(res, "message_delta", {
     type: "message_delta",
-    delta: { stop_reason: stopReason, stop_sequence: null },
-    usage: { output_tokens: 0 },
+    delta: { stop_reason: stopReason, stop_sequence: stopSequence },
+    usage: usage ? toAnthropicUsage(usage) : { input_tokens: estimatedInput, output_tokens: 0 },
   });
   sendEvent(res, "message_stop", { type: "message_stop" });
 
@@ -571,6 +725,19 @@ async function _chatGeminiOAuthInner(
 
 // ── Helpers ────────────────────────────────────────────────────────────
 
+/** RetryInfo.retryDelay ("37s") from a Google error body, in ms */
+function retryDelayMs(errorText: string): number | null {
+  const m = errorText.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return m ? Math.ceil(Number(m[1]) * 1000) : null;
+}
+
+function withStatus(status: number, message: string) {
+  const e = new Error(message);
+  // @ts-ignore
+  e.statusCode = status;
+  return e;
+}
+
 async function safeText(resp: Response) {
   try {
     return await resp.text();
@@ -3,10 +3,49 @@ import { FastifyReply } from "fastify";
 import { createParser } from "eventsource-parser";
 import type { EventSourceMessage } from "eventsource-parser";
 import { sendEvent } from "../sse.js";
-import type { AnthropicRequest, AnthropicMessage, AnthropicTool, AnthropicContentBlock } from "../types.js";
+import { fetchWithRetry } from "../retry.js";
+import { countTokens } from "../token-count.js";
+import { formatUsage, fromChatCompletionsUsage, toAnthropicUsage, reportUsage } from "../usage.js";
+import { fromChatFinishReason, createStopSequenceMatcher } from "../stop-reason.js";
+import { toOpenAIRequestOptions, toOpenAIToolChoice, toOpenAIToolMessages, functionTools, isCompleteToolArguments, thinkingBudget, imageUrl } from "../map.js";
+import { documentFilename, documentText, pdfDataUrl } from "../documents.js";
+import type { AnthropicRequest, AnthropicMessage, AnthropicTool, AnthropicContentBlock, ReasoningLevel, TokenUsage } from "../types.js";
 
 const OR_BASE = process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1";
 
+// ── Model capabilities ─────────────────────────────────────────────────
+
+const MODELS_TTL_MS = 6 * 60 * 60 * 1000;
+// Image requests wait on the lookup, so a slow model list counts as unknown
+const MODELS_TIMEOUT_MS = 5000;
+// model id → input modalities, from OpenRouter's public model list
+let inputModalities: { fetchedAt: number; models: Map<string, string[]> } | null = null;
+
+async function loadInputModalities(): Promise<Map<string, string[]> | null> {
+  if (inputModalities && Date.now() - inputModalities.fetchedAt < MODELS_TTL_MS) return inputModalities.models;
+  try {
+    const resp = await fetch(`${OR_BASE}/models`, { signal: AbortSignal.timeout(MODELS_TIMEOUT_MS) });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    const json = (await resp.json()) as any;
+    const models = new Map<string, string[]>();
+    for (const m of json.data ?? []) {
+      if (typeof m?.id === "string") models.set(m.id, m.architecture?.input_modalities ?? []);
+    }
+    inputModalities = { fetchedAt: Date.now(), models };
+    return models;
+  } catch (e: any) {
+    console.warn(`[openrouter] Could not load model capabilities: ${e.message}`);
+    // Keep serving a stale list rather than none
+    return inputModalities?.models ?? null;
+  }
+}
+
+/** Whether an OpenRouter model takes image input; null when unknown */
+export async function openRouterSupportsImages(model: string): Promise<boolean | null> {
+  const modalities = (await loadInputModalities())?.get(model);
+  return modalities ? modalities.includes("image") : null;
+}
+
 // ── Format converters: Anthropic → OpenAI ──────────────────────────────
 
 /** Convert Anthropic tools to OpenAI tools format */
@@ -33,12 +72,31 @@ function toOpenAIMessagesWithTools(messages: AnthropicMessage[]) {
 
     // Complex content blocks - need to split into separate messages
     const textParts: string[] = [];
+    // Text, images and files in order, used instead of plain text once one of those shows up
+    const contentParts: any[] = [];
+    let hasMedia = false;
     const toolCalls: any[] = [];
     const toolResults: any[] = [];
 
     for (const block of m.content as AnthropicContentBlock[]) {
       if (block.type === "text") {
         textParts.push(block.text);
+        contentParts.push({ type: "text", text: block.text });
+      } else if (block.type === "image" && m.role === "user") {
+        hasMedia = true;
+        contentParts.push({ type: "image_url", image_url: { url: imageUrl(block.source) } });
+      } else if (block.type === "document" && m.role === "user") {
+        if (block.source.type === "text") {
+          // Plain-text documents are just text
+          const text = documentText(block);
+          textParts.push(text);
+          contentParts.push({ type: "text", text });
+        } else {
+          // OpenRouter parses PDFs for every model; file_data takes a data: URL or a plain URL
+          hasMedia = true;
+          const fileData = block.source.type === "url" ? block.source.url : pdfDataUrl(block.source);
+          contentParts.push({ type: "file", file: { filename: documentFilename(block), file_data: fileData } });
+        }
       } else if (block.type === "tool_use") {
         toolCalls.push({
           id: block.id,
@@ -49,17 +107,13 @@ function toOpenAIMessagesWithTools(messages: AnthropicMessage[]) {
           },
         });
       } else if (block.type === "tool_result") {
-        const content = typeof block.content === "string"
-          ? block.content
-          : JSON.stringify(block.content);
-        toolResults.push({
-          role: "tool",
-          tool_call_id: block.tool_use_id,
-          content,
-        });
+        toolResults.push(block);
       }
     }
 
+    // Tool results answer the previous assistant turn, so they go before any user text
+    out.push(...toOpenAIToolMessages(toolResults));
+
     // Assistant message with tool calls
     if (m.role === "assistant" && toolCalls.length > 0) {
       out.push({
@@ -67,26 +121,31 @@ function toOpenAIMessagesWithTools(messages: AnthropicMessage[]) {
         content: textParts.join("") || null,
         tool_calls: toolCalls,
       });
+    } else if (hasMedia) {
+      out.push({ role: m.role, content: contentParts });
     } else if (textParts.length > 0) {
       out.push({ role: m.role, content: textParts.join("") });
     }
-
-    // Tool results become separate "tool" role messages
-    for (const tr of toolResults) {
-      out.push(tr);
-    }
   }
 
   return out;
 }
 
+/** OpenRouter's unified `reasoning` parameter (it has no xhigh effort) */
+function openRouterReasoning(body: AnthropicRequest, reasoning?: ReasoningLevel) {
+  if (reasoning) return { effort: reasoning === "xhigh" ? "high" : reasoning };
+  const budget = thinkingBudget(body);
+  return budget !== undefined ? { max_tokens: budget } : undefined;
+}
+
 // ── Main adapter ────────────────────────────────────────────────────────
 
 export async function chatOpenRouter(
   res: FastifyReply,
   body: AnthropicRequest,
   model: string,
-  apiKey?: string
+  apiKey?: string,
+  reasoning?: ReasoningLevel
 ) {
   if (!apiKey) {
     throw withStatus(401, "Missing OPENROUTER_API_KEY. Set it in ~/.claude-proxy/.env");
@@ -106,7 +165,9 @@ export async function chatOpenRouter(
   }
 
   // Build OpenAI-format request
-  const hasTools = body.tools && body.tools.length > 0;
+  // Server tools (web search) aren't mapped for OpenRouter; only client tools go up
+  const clientTools = functionTools(body);
+  const hasTools = clientTools.length > 0;
   const messages = hasTools
     ? toOpenAIMessagesWithTools(body.messages)
     : toOpenAIMessagesWithTools(body.messages);
@@ -125,18 +186,26 @@ export async function chatOpenRouter(
     stream: true,
     temperature: body.temperature ?? 0.7,
     max_tokens: body.max_tokens,
+    ...toOpenAIRequestOptions(body, { topK: true }),
+    // Ask for the final usage chunk (token counts + cost)
+    usage: { include: true },
   };
 
+  // Model @suffix as an effort level, else the request's thinking budget as a token cap
+  const reasoningConfig = openRouterReasoning(body, reasoning);
+  if (reasoningConfig) reqBody.reasoning = reasoningConfig;
+
   if (hasTools) {
-    reqBody.tools = toOpenAITools(body.tools!);
-    console.log(`[openrouter] Sending ${body.tools!.length} tools (converted to OpenAI format)`);
+    reqBody.tools = toOpenAITools(clientTools);
+    Object.assign(reqBody, toOpenAIToolChoice(body));
+    console.log(`[openrouter] Sending ${clientTools.length} tools (converted to OpenAI format)`);
   }
 
-  const resp = await fetch(url, {
+  const resp = await fetchWithRetry(url, {
     method: "POST",
     headers,
     body: JSON.stringify(reqBody),
-  });
+  }, "openrouter");
 
   if (!resp.ok || !resp.body) {
     const text = await safeText(resp);
@@ -151,8 +220,23 @@ export async function chatOpenRouter(
   let hasStartedThinking = false;
   let hasStartedContent = false;
 
-  // Accumulate tool calls from streaming chunks
-  const pendingToolCalls: Record<number, { id: string; name: string; arguments: string }> = {};
+  // Tool calls by upstream index. A call becomes a tool_use block once its name is
+  // known and no other call's block is open; argument chunks are forwarded while
+  // its block is the open one and buffered until then. A block stays open until
+  // its call is done, so interleaved parallel calls come out whole, in order.
+  const toolCalls: Record<
+    number,
+    { id: string; name: string; arguments: string; sent: number; done: boolean; closed: boolean }
+  > = {};
+  let openToolIdx: number | null = null;
+  let toolCallCount = 0;
+  let finishReason: string | null = null;
+  let nativeFinishReason: string | null = null;
+  const stopper = createStopSequenceMatcher(body.stop_sequences);
+
+  // Real usage arrives in the last chunk; until then report a local estimate
+  const estimatedInput = countTokens(body, "openrouter");
+  let usage = null as TokenUsage | null;
 
   function ensureMessageStarted() {
     if (!hasStartedMessage) {
@@ -167,7 +251,7 @@ export async function chatOpenRouter(
           content: [],
           stop_reason: null,
           stop_sequence: null,
-          usage: { input_tokens: 0, output_tokens: 0 },
+          usage: { input_tokens: estimatedInput, output_tokens: 0 },
         },
       });
     }
@@ -175,6 +259,8 @@ export async function chatOpenRouter(
 
   function ensureThinkingBlockStarted() {
     if (!hasStartedThinking) {
+      closeContentBlock();
+      closeToolBlock();
       hasStartedThinking = true;
       ensureMessageStarted();
       sendEvent(res, "content_block_start", {
@@ -198,8 +284,9 @@ export async function chatOpenRouter(
 
   function ensureContentBlockStarted() {
     if (!hasStartedContent) {
-      // Close thinking block first if open
+      // Close thinking / tool blocks first if open
       closeThinkingBlock();
+      closeToolBlock();
       hasStartedContent = true;
       ensureMessageStarted();
       sendEvent(res, "content_block_start", {
@@ -210,7 +297,24 @@ export async function chatOpenRouter(
     }
   }
 
+  function sendTextDelta(text: string) {
+    ensureContentBlockStarted();
+    sendEvent(res, "content_block_delta", {
+      type: "content_block_delta",
+      index: contentIndex,
+      delta: { type: "text_delta", text },
+    });
+  }
+
+  /** Text from upstream, minus anything at or after a stop sequence */
+  function emitText(text: string) {
+    const out = stopper.push(text);
+    if (out) sendTextDelta(out);
+  }
+
   function closeContentBlock() {
+    const held = stopper.flush();
+    if (held) sendTextDelta(held);
     if (hasStartedContent) {
       sendEvent(res, "content_block_stop", {
         type: "content_block_stop",
@@ -221,16 +325,75 @@ export async function chatOpenRouter(
     }
   }
 
+  function startToolBlock(idx: number) {
+    closeThinkingBlock();
+    closeContentBlock();
+    closeToolBlock();
+    ensureMessageStarted();
+    const tc = toolCalls[idx];
+    // Some upstreams omit the id; the block can't wait for one
+    tc.id ||= `toolu_${msgId.slice(4)}_${idx}`;
+    sendEvent(res, "content_block_start", {
+      type: "content_block_start",
+      index: contentIndex,
+      content_block: { type: "tool_use", id: tc.id, name: tc.name, input: {} },
+    });
+    openToolIdx = idx;
+    toolCallCount++;
+    flushToolArgs(idx);
+  }
+
+  /** Forward argument text not yet sent for the open tool block */
+  function flushToolArgs(idx: number) {
+    const tc = toolCalls[idx];
+    if (tc.sent >= tc.arguments.length) return;
+    sendEvent(res, "content_block_delta", {
+      type: "content_block_delta",
+      index: contentIndex,
+      delta: { type: "input_json_delta", partial_json: tc.arguments.slice(tc.sent) },
+    });
+    tc.sent = tc.arguments.length;
+  }
+
+  function closeToolBlock() {
+    if (openToolIdx === null) return;
+    sendEvent(res, "content_block_stop", {
+      type: "content_block_stop",
+      index: contentIndex,
+    });
+    toolCalls[openToolIdx].closed = true;
+    contentIndex++;
+    openToolIdx = null;
+  }
+
+  /** Close the open tool block once its call is done, and start the next waiting call */
+  function advanceToolBlocks() {
+    while (openToolIdx === null || toolCalls[openToolIdx].done) {
+      closeToolBlock();
+      const next = Object.keys(toolCalls).map(Number).find((i) => toolCalls[i].name && !toolCalls[i].closed);
+      if (next === undefined) return;
+      startToolBlock(next);
+    }
+  }
+
   const reader = resp.body.getReader();
   const decoder = new TextDecoder();
   const parser = createParser({
     onEvent(event: EventSourceMessage) {
       const data = event.data;
       if (!data || data === "[DONE]") return;
+      // Everything after a stop sequence is dropped
+      if (stopper.matched() !== null) return;
       try {
         const json = JSON.parse(data);
+
+        // Final chunk carries usage (often with an empty choices array)
+        if (json.usage) usage = fromChatCompletionsUsage(json.usage);
+
         const choice = json.choices?.[0];
         if (!choice) return;
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+        if (choice.native_finish_reason) nativeFinishReason = choice.native_finish_reason;
 
         const delta = choice.delta;
         if (!delta) return;
@@ -248,25 +411,20 @@ export async function chatOpenRouter(
 
         // Handle text content
         const textChunk = delta.content || "";
-        if (textChunk) {
-          ensureContentBlockStarted();
-          sendEvent(res, "content_block_delta", {
-            type: "content_block_delta",
-            index: contentIndex,
-            delta: { type: "text_delta", text: textChunk },
-          });
-        }
+        if (textChunk) emitText(textChunk);
 
         // Handle streaming tool calls
         if (delta.tool_calls) {
           for (const tc of delta.tool_calls) {
             const idx = tc.index ?? 0;
-            if (!pendingToolCalls[idx]) {
-              pendingToolCalls[idx] = { id: "", name: "", arguments: "" };
-            }
-            if (tc.id) pendingToolCalls[idx].id = tc.id;
-            if (tc.function?.name) pendingToolCalls[idx].name += tc.function.name;
-            if (tc.function?.arguments) pendingToolCalls[idx].arguments += tc.function.arguments;
+            const call = (toolCalls[idx] ??= { id: "", name: "", arguments: "", sent: 0, done: false, closed: false });
+            if (tc.id) call.id = tc.id;
+            if (tc.function?.name) call.name += tc.function.name;
+            if (tc.function?.arguments) call.arguments += tc.function.arguments;
+            call.done = isCompleteToolArguments(call.arguments);
+
+            if (openToolIdx === idx) flushToolArgs(idx);
+            advanceToolBlocks();
           }
         }
       } catch {
@@ -279,60 +437,45 @@ export async function chatOpenRouter(
     const { value, done } = await reader.read();
     if (done) break;
     parser.feed(decoder.decode(value));
+    // Hit a stop sequence: no need to read the rest
+    if (stopper.matched() !== null) {
+      reader.cancel().catch(() => {});
+      break;
+    }
   }
 
-  // ── Finalize: emit tool_use blocks if any ─────────────────────────
+  // ── Finalize: close open blocks ───────────────────────────────────
 
   ensureMessageStarted();
-
-  // Close any open blocks
   closeThinkingBlock();
   closeContentBlock();
-
-  // Emit tool_use content blocks
-  const toolCallEntries = Object.values(pendingToolCalls);
-  if (toolCallEntries.length > 0) {
-    for (const tc of toolCallEntries) {
-      // Start tool_use content block
-      sendEvent(res, "content_block_start", {
-        type: "content_block_start",
-        index: contentIndex,
-        content_block: {
-          type: "tool_use",
-          id: tc.id,
-          name: tc.name,
-          input: {},
-        },
-      });
-
-      // Send the input as a delta
-      sendEvent(res, "content_block_delta", {
-        type: "content_block_delta",
-        index: contentIndex,
-        delta: {
-          type: "input_json_delta",
-          partial_json: tc.arguments,
-        },
-      });
-
-      // Stop tool_use content block
-      sendEvent(res, "content_block_stop", {
-        type: "content_block_stop",
-        index: contentIndex,
-      });
-
-      contentIndex++;
-    }
+  // Calls still waiting for a block go out now, in order
+  for (const tc of Object.values(toolCalls)) tc.done = true;
+  advanceToolBlocks();
+  closeToolBlock();
+
+  // A locally matched stop sequence wins; a native one is only named when there's a single candidate
+  let stopSequence = stopper.matched();
+  const stopReason = stopSequence !== null
+    ? "stop_sequence"
+    : fromChatFinishReason(finishReason, toolCallCount > 0, nativeFinishReason);
+  if (stopReason === "stop_sequence" && stopSequence === null && body.stop_sequences?.length === 1) {
+    stopSequence = body.stop_sequences[0];
+  }
+  if (stopReason !== "end_turn" && stopReason !== "tool_use") {
+    console.log(`[openrouter] Stop reason: ${stopReason} (finish_reason=${finishReason})`);
   }
 
-  // Determine stop reason
-  const stopReason = toolCallEntries.length > 0 ? "tool_use" : "end_turn";
+  if (usage) {
+    console.log(`[openrouter] Usage: ${formatUsage(usage)}`);
+    reportUsage(res, usage);
+  }
 
   // Send message_delta and message_stop
   sendEvent(res, "message_delta", {
     type: "message_delta",
-    delta: { stop_reason: stopReason, stop_sequence: null },
-    usage: { output_tokens: 0 },
+    delta: { stop_reason: stopReason, stop_sequence: stopSequence },
+    usage: usage ? toAnthropicUsage(usage) : { input_tokens: estimatedInput, output_tokens: 0 },
   });
   sendEvent(res, "message_stop", { type: "message_stop" });
 
@@ -0,0 +1,108 @@
+// Shared retry policy for upstream requests
+// Retries happen around the upstream fetch only, i.e. before the adapter has
+// written anything to the client, so a retried request is never half-streamed.
+// Per-provider settings live in ~/.claude-proxy/retry.json.
+
+import { loadConfigFile } from "./config.js";
+import type { ProviderKey } from "./types.js";
+
+export type RetryPolicy = {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** First backoff delay; doubles on every retry */
+  baseDelayMs: number;
+  /** Upper bound for a computed backoff delay */
+  maxDelayMs: number;
+  /** Give up instead of waiting when the upstream asks for a longer Retry-After */
+  maxRetryAfterMs: number;
+  /** HTTP statuses worth retrying (network errors are always retried) */
+  retryOn: number[];
+};
+
+type RetryConfig = Partial<RetryPolicy> & {
+  providers?: Partial<Record<ProviderKey, Partial<RetryPolicy>>>;
+};
+
+// 429 isn't retried by default: waiting out a rate limit is usually slower
+// than falling back to another provider (see fallbacks.json)
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30_000,
+  retryOn: [408, 500, 502, 503, 504, 529],
+};
+
+/** Defaults ← retry.json top level ← retry.json providers[provider] */
+export async function getRetryPolicy(provider: ProviderKey): Promise<RetryPolicy> {
+  const config = await loadConfigFile<RetryConfig>("retry.json");
+  if (!config) return DEFAULT_RETRY_POLICY;
+  const { providers, ...global } = config;
+  return { ...DEFAULT_RETRY_POLICY, ...global, ...providers?.[provider] };
+}
+
+/**
+ * Delay the upstream asked for via `retry-after-ms` (milliseconds) or
+ * `Retry-After` (seconds or an HTTP date). Null when absent or unparsable.
+ */
+export function retryAfterMs(headers: Headers, now = Date.now()): number | null {
+  const ms = Number(headers.get("retry-after-ms"));
+  if (headers.get("retry-after-ms") && Number.isFinite(ms) && ms >= 0) return ms;
+
+  const value = headers.get("retry-after");
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Exponential backoff with jitter for retry number `retry` (0-based) */
+export function backoffMs(retry: number, policy: RetryPolicy): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  // Jitter in [50%, 100%] so concurrent requests don't retry in lockstep
+  return Math.round(exp * (0.5 + Math.random() * 0.5));
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * fetch() with retries on transient failures. Returns the last response
+ * (possibly an error status) so callers keep their own error handling;
+ * throws only if the final attempt failed at the network level.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  provider: ProviderKey,
+  policy?: RetryPolicy,
+): Promise<Response> {
+  const p = policy ?? (await getRetryPolicy(provider));
+
+  for (let retry = 0; ; retry++) {
+    const last = retry >= p.maxRetries;
+    let resp: Response;
+    try {
+      resp = await fetch(url, init);
+    } catch (e: any) {
+      if (last) throw e;
+      const delay = backoffMs(retry, p);
+      console.warn(`[${provider}] Network error (${e?.cause?.code || e.message}), retry ${retry + 1}/${p.maxRetries} in ${delay}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (resp.ok || last || !p.retryOn.includes(resp.status)) return resp;
+
+    const asked = retryAfterMs(resp.headers);
+    if (asked !== null && asked > p.maxRetryAfterMs) {
+      console.warn(`[${provider}] Upstream ${resp.status} asks to retry after ${Math.round(asked / 1000)}s - not waiting`);
+      return resp;
+    }
+    const delay = asked ?? backoffMs(retry, p);
+    // Free the connection before waiting
+    await resp.body?.cancel().catch(() => {});
+    console.warn(`[${provider}] Upstream ${resp.status}, retry ${retry + 1}/${p.maxRetries} in ${delay}ms`);
+    await sleep(delay);
+  }
+}
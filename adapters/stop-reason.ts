@@ -0,0 +1,95 @@
+// Upstream finish reasons → Anthropic stop_reason, and local stop_sequences matching
+// A tool call only overrides a normal stop: truncated or filtered turns keep their
+// reason so Claude Code continues (max_tokens, pause_turn) or reports (refusal) them.
+
+import type { StopReason } from "./types.js";
+
+/** OpenAI Chat Completions / OpenRouter `finish_reason` (OpenRouter also passes the provider's own reason) */
+export function fromChatFinishReason(reason: unknown, hasToolCalls: boolean, nativeReason?: unknown): StopReason {
+  if (reason === "length") return "max_tokens";
+  if (reason === "content_filter" || nativeReason === "refusal") return "refusal";
+  if (reason === "tool_calls" || reason === "function_call" || hasToolCalls) return "tool_use";
+  if (nativeReason === "stop_sequence") return "stop_sequence";
+  return "end_turn";
+}
+
+// Candidates stopped by a content policy
+const GEMINI_REFUSALS = new Set(["SAFETY", "RECITATION", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "IMAGE_SAFETY"]);
+
+/** Gemini candidate `finishReason` (or a prompt `blockReason`) */
+export function fromGeminiFinishReason(reason: unknown, hasToolCalls: boolean): StopReason {
+  if (reason === "MAX_TOKENS") return "max_tokens";
+  if (typeof reason === "string" && GEMINI_REFUSALS.has(reason)) return "refusal";
+  return hasToolCalls ? "tool_use" : "end_turn";
+}
+
+/**
+ * Responses API final `response.status` / `incomplete_details.reason`. Any other
+ * incomplete reason means the turn was cut short, so ask the client to continue it.
+ */
+export function fromResponsesStatus(status: unknown, incompleteReason: unknown, hasToolCalls: boolean): StopReason {
+  if (status === "incomplete") {
+    if (incompleteReason === "max_output_tokens") return "max_tokens";
+    if (incompleteReason === "content_filter") return "refusal";
+    return "pause_turn";
+  }
+  return hasToolCalls ? "tool_use" : "end_turn";
+}
+
+// ── Stop sequences ─────────────────────────────────────────────────────
+
+/**
+ * Watches streamed text for the request's stop_sequences. Upstreams that take
+ * stop sequences natively never say which one they hit, and some ignore them,
+ * so adapters run text through this too: it holds back a possible partial
+ * match, cuts the text at a full match and remembers which sequence it was.
+ */
+export function createStopSequenceMatcher(sequences: string[] | undefined) {
+  const seqs = (sequences ?? []).filter((s) => typeof s === "string" && s.length > 0);
+  let held = "";
+  let matched: string | null = null;
+
+  return {
+    /** The stop sequence that ended the text, if any */
+    matched: () => matched,
+
+    /** Feed a text delta; returns the part that is safe to emit now */
+    push(text: string): string {
+      if (matched !== null) return "";
+      if (!seqs.length) return text;
+      const buf = held + text;
+
+      let at = -1;
+      for (const s of seqs) {
+        const i = buf.indexOf(s);
+        if (i !== -1 && (at === -1 || i < at)) {
+          at = i;
+          matched = s;
+        }
+      }
+      if (matched !== null) {
+        held = "";
+        return buf.slice(0, at);
+      }
+
+      // Keep back the longest tail that could still grow into a stop sequence
+      let keep = 0;
+      for (let k = Math.min(buf.length, Math.max(...seqs.map((s) => s.length)) - 1); k > 0; k--) {
+        const tail = buf.slice(-k);
+        if (seqs.some((s) => s.startsWith(tail))) {
+          keep = k;
+          break;
+        }
+      }
+      held = buf.slice(buf.length - keep);
+      return buf.slice(0, buf.length - keep);
+    },
+
+    /** Release held-back text (at the end of a text block) */
+    flush(): string {
+      const text = held;
+      held = "";
+      return text;
+    },
+  };
+}
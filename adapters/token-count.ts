@@ -0,0 +1,256 @@
+// Local token estimation for /v1/messages/count_tokens
+// Non-Anthropic providers have no count endpoint Claude Code can reach, so we
+// approximate each provider family's tokenizer and image accounting locally.
+
+import { documentText } from "./documents.js";
+import type {
+  AnthropicContentBlock,
+  AnthropicMessage,
+  AnthropicRequest,
+  ProviderKey,
+} from "./types.js";
+
+type TokenFamily = "anthropic" | "glm" | "gemini" | "openai" | "openrouter";
+
+type FamilyProfile = {
+  /** Average characters per token for Latin-script text */
+  charsPerToken: number;
+  /** Fixed framing cost per message (role markers, separators) */
+  perMessage: number;
+  /** Fixed framing cost per tool definition */
+  perTool: number;
+  /** One-off cost of the tool-use preamble when any tools are sent */
+  toolsPreamble: number;
+  /** Token cost of a single image of the given size */
+  image: (width: number, height: number) => number;
+};
+
+// Used when an image's dimensions can't be read (URL sources, unknown formats)
+const DEFAULT_IMAGE_SIZE = 1024;
+
+const FAMILY_PROFILES: Record<TokenFamily, FamilyProfile> = {
+  // Anthropic: ~(w*h)/750 after downscaling to fit 1568px on the long edge
+  anthropic: {
+    charsPerToken: 3.5,
+    perMessage: 4,
+    perTool: 20,
+    toolsPreamble: 346,
+    image: (w, h) => {
+      const scale = Math.min(1, 1568 / Math.max(w, h));
+      return Math.min(1600, Math.ceil((w * scale * h * scale) / 750));
+    },
+  },
+  // GLM never sees images: they're replaced with text descriptions first
+  glm: {
+    charsPerToken: 3.8,
+    perMessage: 4,
+    perTool: 16,
+    toolsPreamble: 200,
+    image: () => 300,
+  },
+  // Gemini: 258 tokens for small images, otherwise 258 per 768x768 tile
+  gemini: {
+    charsPerToken: 4,
+    perMessage: 4,
+    perTool: 12,
+    toolsPreamble: 40,
+    image: (w, h) => {
+      if (w <= 384 && h <= 384) return 258;
+      return Math.ceil(w / 768) * Math.ceil(h / 768) * 258;
+    },
+  },
+  // OpenAI high-detail: fit in 2048x2048, shortest side to 768, 170/tile + 85
+  openai: {
+    charsPerToken: 4,
+    perMessage: 3,
+    perTool: 10,
+    toolsPreamble: 20,
+    image: openAIImageTokens,
+  },
+  // OpenRouter fronts many tokenizers; assume a slightly denser one than OpenAI
+  openrouter: {
+    charsPerToken: 3.5,
+    perMessage: 4,
+    perTool: 12,
+    toolsPreamble: 30,
+    image: openAIImageTokens,
+  },
+};
+
+function openAIImageTokens(w: number, h: number): number {
+  let width = w;
+  let height = h;
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  width *= fit;
+  height *= fit;
+  const shortest = Math.min(width, height);
+  if (shortest > 768) {
+    width *= 768 / shortest;
+    height *= 768 / shortest;
+  }
+  return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512);
+}
+
+/** Map a routed provider to the tokenizer family we approximate */
+export function tokenFamily(provider: ProviderKey): TokenFamily {
+  switch (provider) {
+    case "gemini":
+    case "gemini-oauth":
+      return "gemini";
+    case "openai":
+    case "codex-oauth":
+      return "openai";
+    case "openrouter":
+      return "openrouter";
+    case "anthropic":
+      return "anthropic";
+    default:
+      return "glm";
+  }
+}
+
+// ── Text ───────────────────────────────────────────────────────────────
+
+// CJK, kana and hangul characters are roughly one token each in every tokenizer
+const DENSE_CHARS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+export function estimateTextTokens(text: string, charsPerToken: number): number {
+  if (!text) return 0;
+  const dense = text.match(DENSE_CHARS)?.length ?? 0;
+  return Math.ceil((text.length - dense) / charsPerToken) + dense;
+}
+
+// ── Images ─────────────────────────────────────────────────────────────
+
+/** Read width/height from the header of a base64 PNG, GIF, JPEG or WebP image */
+export function imageDimensions(base64: string): { width: number; height: number } | null {
+  let buf: Buffer;
+  try {
+    // Headers live near the start; JPEG SOF can sit behind EXIF, so decode generously
+    buf = Buffer.from(base64.slice(0, 256 * 1024), "base64");
+  } catch {
+    return null;
+  }
+  if (buf.length < 24) return null;
+
+  // PNG: IHDR chunk follows the 8-byte signature
+  if (buf[0] === 0x89 && buf.toString("ascii", 1, 4) === "PNG") {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen size, little-endian
+  if (buf.toString("ascii", 0, 3) === "GIF") {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  }
+
+  // WebP: RIFF container with VP8 / VP8L / VP8X chunk
+  if (buf.toString("ascii", 0, 4) === "RIFF" && buf.toString("ascii", 8, 12) === "WEBP") {
+    const chunk = buf.toString("ascii", 12, 16);
+    if (chunk === "VP8 " && buf.length >= 30) {
+      return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === "VP8L" && buf.length >= 25) {
+      const bits = buf.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X" && buf.length >= 30) {
+      return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (buf[0] === 0xff && buf[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buf.length) {
+      if (buf[offset] !== 0xff) return null;
+      const marker = buf[offset + 1];
+      const isSOF = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isSOF) {
+        return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + buf.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+function imageTokens(block: { source: any }, profile: FamilyProfile): number {
+  const dims = block.source?.type === "base64" && block.source.data
+    ? imageDimensions(block.source.data)
+    : null;
+  return profile.image(dims?.width ?? DEFAULT_IMAGE_SIZE, dims?.height ?? DEFAULT_IMAGE_SIZE);
+}
+
+// ── Messages ───────────────────────────────────────────────────────────
+
+function blockTokens(block: AnthropicContentBlock, profile: FamilyProfile): number {
+  const text = (s: string) => estimateTextTokens(s, profile.charsPerToken);
+
+  switch (block.type) {
+    case "text":
+      return text(block.text);
+    case "image":
+      return imageTokens(block, profile);
+    case "document":
+      return block.source.type === "url" ? text(block.source.url) + 4 : text(documentText(block)) + 4;
+    case "tool_use": {
+      const input = typeof block.input === "string" ? block.input : JSON.stringify(block.input ?? {});
+      return text(block.name) + text(input) + 4;
+    }
+    case "tool_result": {
+      if (typeof block.content === "string") return text(block.content) + 4;
+      let total = 4;
+      for (const part of (block.content ?? []) as any[]) {
+        if (part?.type === "text") total += text(part.text ?? "");
+        else if (part?.type === "image") total += imageTokens(part, profile);
+        else total += text(JSON.stringify(part));
+      }
+      return total;
+    }
+    default:
+      return text(JSON.stringify(block));
+  }
+}
+
+function messageTokens(message: AnthropicMessage, profile: FamilyProfile): number {
+  if (typeof message.content === "string") {
+    return profile.perMessage + estimateTextTokens(message.content, profile.charsPerToken);
+  }
+  let total = profile.perMessage;
+  for (const block of message.content) total += blockTokens(block, profile);
+  return total;
+}
+
+/**
+ * Estimate input tokens for a request as the routed provider would count them.
+ * Covers system prompt, messages (text, tool calls/results, images) and tools.
+ */
+export function countTokens(body: AnthropicRequest, provider: ProviderKey): number {
+  const profile = FAMILY_PROFILES[tokenFamily(provider)];
+  let total = 0;
+
+  if (body.system) {
+    const sysText = Array.isArray(body.system)
+      ? body.system.map((b) => b.text ?? "").join("\n")
+      : body.system;
+    total += profile.perMessage + estimateTextTokens(sysText, profile.charsPerToken);
+  }
+
+  for (const m of body.messages ?? []) {
+    total += messageTokens(m, profile);
+  }
+
+  if (body.tools && body.tools.length > 0) {
+    total += profile.toolsPreamble;
+    for (const t of body.tools) {
+      total += profile.perTool;
+      total += estimateTextTokens(t.name, profile.charsPerToken);
+      total += estimateTextTokens(t.description ?? "", profile.charsPerToken);
+      total += estimateTextTokens(JSON.stringify(t.input_schema ?? {}), profile.charsPerToken);
+    }
+  }
+
+  return Math.max(1, total);
+}
@@ -0,0 +1,184 @@
+// Per-route tool policies from ~/.claude-proxy/tool-policy.json
+// A policy reshapes the client's tools before a request goes upstream: drop,
+// rename, re-describe or add tools, turn the provider's native web search on or
+// off, and set the note appended to the system prompt. Renamed tools are mapped
+// back in the response, so the client only ever sees its own tool names.
+
+import type { FastifyReply } from "fastify";
+import { loadConfigFile } from "./config.js";
+import { isServerTool } from "./map.js";
+import { shareReportedUsage } from "./usage.js";
+import type { AnthropicRequest, AnthropicTool, ProviderKey, ProviderModel } from "./types.js";
+
+export type ToolPolicy = {
+  /**
+   * Provider-side web search (Codex / OpenAI `web_search`, Gemini Google Search grounding).
+   * Sent as Anthropic's web_search server tool, so the Anthropic upstream searches too.
+   */
+  nativeSearch?: boolean;
+  /** Tool names to remove (default with native search: WebSearch, WebFetch) */
+  drop?: string[];
+  /** Client tool name → name the model sees */
+  rename?: Record<string, string>;
+  /** Client tool name → description the model sees */
+  descriptions?: Record<string, string>;
+  /** Extra tool definitions; the client has to be able to run them */
+  add?: AnthropicTool[];
+  /** Appended to the system prompt (default with native search: a note to use it); "" for none */
+  systemNote?: string;
+};
+
+export type ToolPolicyConfig = {
+  /** Keys are tried as "*", then "provider", the model name the client sent, and "provider:model"; later ones win */
+  policies?: Record<string, ToolPolicy>;
+};
+
+// Claude Code's WebSearch / WebFetch run through a separate Anthropic call, so
+// providers that search natively get their own search instead
+const BUILTIN: Partial<Record<ProviderKey, ToolPolicy>> = {
+  "codex-oauth": { nativeSearch: true },
+  openai: { nativeSearch: true },
+  "gemini-oauth": { nativeSearch: true },
+  gemini: { nativeSearch: true },
+};
+
+const SEARCH_TOOLS = ["WebSearch", "WebFetch"];
+
+const SEARCH_NOTE =
+  "IMPORTANT: You have native server-side web search. Do NOT use the WebSearch or WebFetch tools — they will not work. Instead, use your built-in web search capability when you need to look something up online.";
+
+const WEB_SEARCH_TOOL: AnthropicTool = { type: "web_search_20250305", name: "web_search" };
+
+/** The policy for a route: built-in defaults, overlaid with each matching config entry (most specific last) */
+export function resolveToolPolicy(config: ToolPolicyConfig | null, route: ProviderModel, requestedModel?: string): ToolPolicy {
+  const policies = config?.policies ?? {};
+  const keys = ["*", route.provider, requestedModel?.toLowerCase(), `${route.provider}:${route.model}`];
+  const policy: ToolPolicy = { ...BUILTIN[route.provider] };
+  const seen = new Set<string>();
+  for (const key of keys) {
+    if (!key || seen.has(key) || !policies[key]) continue;
+    seen.add(key);
+    Object.assign(policy, policies[key]);
+  }
+  return policy;
+}
+
+/**
+ * Apply a policy to the request body (in place). Returns the renames to undo in
+ * the response: model-facing name → client name.
+ */
+export function applyToolPolicy(body: AnthropicRequest, policy: ToolPolicy): Record<string, string> {
+  const drop = new Set(policy.drop ?? (policy.nativeSearch ? SEARCH_TOOLS : []));
+  const rename = policy.rename ?? {};
+  const descriptions = policy.descriptions ?? {};
+  const reverse: Record<string, string> = {};
+
+  let tools = (body.tools ?? []).filter((t) => !drop.has(t.name));
+  if (policy.nativeSearch === false) tools = tools.filter((t) => !t.type?.startsWith("web_search"));
+  tools = tools.map((t) => {
+    if (isServerTool(t)) return t;
+    const out = { ...t };
+    if (descriptions[t.name] !== undefined) out.description = descriptions[t.name];
+    if (rename[t.name]) {
+      out.name = rename[t.name];
+      reverse[out.name] = t.name;
+    }
+    return out;
+  });
+  for (const extra of policy.add ?? []) {
+    if (!tools.some((t) => t.name === extra.name)) tools.push(extra);
+  }
+  if (policy.nativeSearch && !tools.some((t) => t.type?.startsWith("web_search"))) tools.push(WEB_SEARCH_TOOL);
+  if (body.tools || tools.length) body.tools = tools;
+
+  // Earlier calls in the history use the client's names too
+  if (Object.keys(reverse).length) {
+    for (const msg of body.messages) {
+      if (!Array.isArray(msg.content)) continue;
+      msg.content = msg.content.map((b) => (b.type === "tool_use" && rename[b.name] ? { ...b, name: rename[b.name] } : b));
+    }
+  }
+
+  // A tool_choice naming a renamed or removed tool
+  const choice = body.tool_choice;
+  if (choice?.type === "tool") {
+    const name = rename[choice.name] ?? choice.name;
+    body.tool_choice = tools.some((t) => t.name === name)
+      ? { ...choice, name }
+      : { type: "auto", disable_parallel_tool_use: choice.disable_parallel_tool_use };
+  }
+
+  const note = policy.systemNote ?? (policy.nativeSearch ? SEARCH_NOTE : "");
+  if (note) {
+    if (Array.isArray(body.system)) {
+      body.system = [...body.system, { type: "text", text: note }];
+    } else if (body.system) {
+      body.system = `${body.system}\n\n${note}`;
+    } else {
+      body.system = note;
+    }
+  }
+
+  return reverse;
+}
+
+/** Load tool-policy.json and resolve the policy for this request */
+export async function getToolPolicy(route: ProviderModel, requestedModel?: string): Promise<ToolPolicy> {
+  const config = await loadConfigFile<ToolPolicyConfig>("tool-policy.json");
+  return resolveToolPolicy(config, route, requestedModel);
+}
+
+// ── Response ───────────────────────────────────────────────────────────
+
+/**
+ * Wrap a reply so tool_use blocks written to it carry the client's tool names.
+ * Works on whole SSE lines, so it doesn't matter how the adapter chunks its writes.
+ */
+export function createRenamingReply(res: FastifyReply, reverse: Record<string, string>): FastifyReply {
+  if (Object.keys(reverse).length === 0) return res;
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  function renameLine(line: string): string {
+    if (!line.startsWith("data: ") || !line.includes('"tool_use"')) return line;
+    try {
+      const data = JSON.parse(line.slice(6));
+      const block = data?.content_block;
+      if (data?.type !== "content_block_start" || block?.type !== "tool_use" || !reverse[block.name]) return line;
+      block.name = reverse[block.name];
+      return `data: ${JSON.stringify(data)}`;
+    } catch {
+      return line;
+    }
+  }
+
+  const raw = new Proxy(res.raw, {
+    get(target, prop) {
+      if (prop === "write") {
+        return (chunk: string | Uint8Array) => {
+          pending += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+          const cut = pending.lastIndexOf("\n") + 1;
+          if (cut === 0) return true;
+          const lines = pending.slice(0, cut).split("\n").map(renameLine).join("\n");
+          pending = pending.slice(cut);
+          return (target.write as any)(lines);
+        };
+      }
+      if (prop === "end") {
+        return (chunk?: string | Uint8Array) => {
+          if (chunk) raw.write(chunk);
+          if (pending) (target.write as any)(renameLine(pending));
+          pending = "";
+          return (target.end as any)();
+        };
+      }
+      const value = Reflect.get(target, prop, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+
+  const reply = Object.create(res, { raw: { value: raw } }) as FastifyReply;
+  // Adapters report usage on the reply they were given; the gateway reads it from `res`
+  shareReportedUsage(reply, res);
+  return reply;
+}
@@ -1,11 +1,42 @@
 // TypeScript type definitions for Anthropic API subset
 // Used across all adapter files
 
+export type AnthropicImageSource =
+  | { type: "base64"; media_type: string; data: string }
+  | { type: "url"; url: string };
+
+export type AnthropicDocumentSource =
+  | { type: "base64"; media_type: string; data: string }
+  | { type: "text"; media_type?: string; data: string }
+  | { type: "url"; url: string };
+
+/** A source backing part of a text block (web search results only, for now) */
+export type AnthropicCitation = {
+  type: "web_search_result_location";
+  url: string;
+  title: string;
+  cited_text: string;
+  encrypted_index: string;
+};
+
+export type AnthropicWebSearchResult = {
+  type: "web_search_result";
+  url: string;
+  title: string;
+  encrypted_content: string;
+  page_age?: string | null;
+};
+
 export type AnthropicContentBlock =
-  | { type: "text"; text: string }
-  | { type: "image"; source: { type: "base64"; media_type: string; data: string } }
+  | { type: "text"; text: string; citations?: AnthropicCitation[] }
+  | { type: "image"; source: AnthropicImageSource }
+  | { type: "document"; source: AnthropicDocumentSource; title?: string; context?: string }
   | { type: "tool_use"; id: string; name: string; input: unknown }
-  | { type: "tool_result"; tool_use_id: string; content: string | unknown[] };
+  | { type: "thinking"; thinking: string; signature?: string }
+  | { type: "redacted_thinking"; data: string }
+  | { type: "tool_result"; tool_use_id: string; content: string | unknown[] }
+  | { type: "server_tool_use"; id: string; name: string; input: unknown }
+  | { type: "web_search_tool_result"; tool_use_id: string; content: AnthropicWebSearchResult[] | unknown };
 
 export type AnthropicMessage = {
   role: "user" | "assistant";
@@ -13,19 +44,71 @@ export type AnthropicMessage = {
 };
 
 export type AnthropicTool = {
+  /** Set for Anthropic server tools (e.g. `web_search_20250305`); client tools omit it or use "custom" */
+  type?: string;
   name: string;
   description?: string;
   input_schema?: unknown;
 };
 
+/** How the model may use tools (Anthropic `tool_choice`) */
+export type AnthropicToolChoice =
+  | { type: "auto"; disable_parallel_tool_use?: boolean }
+  | { type: "any"; disable_parallel_tool_use?: boolean }
+  | { type: "tool"; name: string; disable_parallel_tool_use?: boolean }
+  | { type: "none" };
+
 export type AnthropicRequest = {
   model: string;
   messages: AnthropicMessage[];
   max_tokens?: number;
   temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
   stream?: boolean;
   tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+  /** Extended thinking; `budget_tokens` is mapped onto each provider's reasoning control */
+  thinking?: { type: "enabled"; budget_tokens: number } | { type: "disabled" };
   system?: string | Array<{ type: string; text: string }>;
+  metadata?: { user_id?: string };
+};
+
+export type AnthropicUsage = {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+};
+
+/** Provider-neutral token usage for one response, normalized to Anthropic semantics */
+export type TokenUsage = {
+  /** Prompt tokens not served from cache */
+  inputTokens: number;
+  /** Generated tokens, including reasoning */
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Portion of outputTokens spent on reasoning (informational) */
+  reasoningTokens: number;
+  /** Cost reported by the upstream itself, when it does (OpenRouter) */
+  costUsd?: number;
+};
+
+/** Why the model stopped (Anthropic `stop_reason`) */
+export type StopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | "pause_turn" | "refusal";
+
+/** Non-streaming Message response body */
+export type AnthropicResponse = {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: any[];
+  stop_reason: StopReason | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
 };
 
 export type ProviderKey = "openai" | "openrouter" | "gemini" | "gemini-oauth" | "codex-oauth" | "glm" | "anthropic";
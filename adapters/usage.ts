@@ -0,0 +1,104 @@
+// Token usage normalization: upstream usage payloads → Anthropic usage fields
+// Anthropic reports cache reads separately from input_tokens, while OpenAI and
+// Gemini include cached tokens in the prompt count, so we subtract them here.
+
+import type { AnthropicUsage, TokenUsage } from "./types.js";
+
+const n = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : 0);
+
+/** OpenAI Chat Completions / OpenRouter final-chunk `usage` */
+export function fromChatCompletionsUsage(u: any): TokenUsage {
+  const cached = n(u?.prompt_tokens_details?.cached_tokens);
+  return {
+    inputTokens: Math.max(0, n(u?.prompt_tokens) - cached),
+    outputTokens: n(u?.completion_tokens),
+    cacheReadTokens: cached,
+    cacheWriteTokens: n(u?.prompt_tokens_details?.cache_write_tokens),
+    reasoningTokens: n(u?.completion_tokens_details?.reasoning_tokens),
+    ...(typeof u?.cost === "number" && { costUsd: u.cost }),
+  };
+}
+
+/** Responses API `response.completed` → `response.usage` */
+export function fromResponsesUsage(u: any): TokenUsage {
+  const cached = n(u?.input_tokens_details?.cached_tokens);
+  return {
+    inputTokens: Math.max(0, n(u?.input_tokens) - cached),
+    outputTokens: n(u?.output_tokens),
+    cacheReadTokens: cached,
+    cacheWriteTokens: 0,
+    reasoningTokens: n(u?.output_tokens_details?.reasoning_tokens),
+  };
+}
+
+/** Gemini `usageMetadata` (thoughts are billed as output but counted separately) */
+export function fromGeminiUsage(m: any): TokenUsage {
+  const cached = n(m?.cachedContentTokenCount);
+  const thoughts = n(m?.thoughtsTokenCount);
+  return {
+    inputTokens: Math.max(0, n(m?.promptTokenCount) + n(m?.toolUsePromptTokenCount) - cached),
+    outputTokens: n(m?.candidatesTokenCount) + thoughts,
+    cacheReadTokens: cached,
+    cacheWriteTokens: 0,
+    reasoningTokens: thoughts,
+  };
+}
+
+/** Anthropic `usage` (pass-through upstreams) → normalized usage */
+export function fromAnthropicUsage(u: any): TokenUsage {
+  return {
+    inputTokens: n(u?.input_tokens),
+    outputTokens: n(u?.output_tokens),
+    cacheReadTokens: n(u?.cache_read_input_tokens),
+    cacheWriteTokens: n(u?.cache_creation_input_tokens),
+    reasoningTokens: 0,
+  };
+}
+
+/** Anthropic `usage` object for message_start / message_delta events */
+export function toAnthropicUsage(u: TokenUsage): AnthropicUsage {
+  return {
+    input_tokens: u.inputTokens,
+    output_tokens: u.outputTokens,
+    cache_read_input_tokens: u.cacheReadTokens,
+    cache_creation_input_tokens: u.cacheWriteTokens,
+  };
+}
+
+// Adapters report their normalized usage against the reply they wrote to, so the
+// gateway can price it (the Anthropic usage fields drop reasoning tokens and
+// OpenRouter's upstream cost).
+const reported = new WeakMap<object, TokenUsage>();
+// Reply wrappers (tool renaming) → the reply they wrap, which the gateway reads
+const wrapped = new WeakMap<object, object>();
+
+/** Usage reported against `wrapper` is recorded for `res` */
+export function shareReportedUsage(wrapper: object, res: object) {
+  wrapped.set(wrapper, res);
+}
+
+function usageTarget(res: object): object {
+  let target = res;
+  while (wrapped.has(target)) target = wrapped.get(target)!;
+  return target;
+}
+
+/** Remember the upstream usage for a reply */
+export function reportUsage(res: object, u: TokenUsage) {
+  reported.set(usageTarget(res), u);
+}
+
+/** Upstream usage reported for a reply, if the adapter had any */
+export function reportedUsage(res: object): TokenUsage | null {
+  return reported.get(usageTarget(res)) ?? null;
+}
+
+/** One-line summary for logs */
+export function formatUsage(u: TokenUsage): string {
+  const parts = [`in=${u.inputTokens}`, `out=${u.outputTokens}`];
+  if (u.cacheReadTokens) parts.push(`cached=${u.cacheReadTokens}`);
+  if (u.cacheWriteTokens) parts.push(`cache_write=${u.cacheWriteTokens}`);
+  if (u.reasoningTokens) parts.push(`reasoning=${u.reasoningTokens}`);
+  if (u.costUsd !== undefined) parts.push(`upstream_cost=$${u.costUsd.toFixed(6)}`);
+  return parts.join(" ");
+}
@@ -1,130 +1,172 @@
 // Vision preprocessing: converts image blocks to text descriptions for non-vision models
-import { createHash } from "crypto";
-import type { AnthropicRequest } from "./types.js";
-
-const DEFAULT_VISION_MODEL = "google/gemini-2.5-flash";
+// Descriptions come from a pluggable backend (any provider route, or a local
+// OpenAI-compatible server) and are cached on disk (see bin/lib/vision-cache.js),
+// so the same screenshot is only described once per backend, across restarts.
+import type { AnthropicImageSource, AnthropicRequest, ProviderKey, ProviderModel } from "./types.js";
+import { imageUrl } from "./map.js";
+import { visionCacheKey, getCachedDescription, putCachedDescription } from "../bin/lib/vision-cache.js";
+
+const DEFAULT_OPENROUTER_VISION_MODEL = "google/gemini-2.5-flash";
+const DEFAULT_GEMINI_VISION_MODEL = "gemini-2.5-flash";
 const DESCRIBE_PROMPT =
   "Describe this image in granular detail — layout, text, colors, objects, spatial relationships, any code or data visible.";
 
-// In-memory cache: hash of image data → description text
-const descriptionCache = new Map<string, string>();
+const UNAVAILABLE = "[Image description unavailable]";
+
+/** Something that can turn an image into a text description */
+export type VisionBackend = {
+  /** Route or server + model; part of the cache key */
+  name: string;
+  describe(source: AnthropicImageSource, prompt: string): Promise<string>;
+};
+
+/** Where image descriptions come from, per VISION_MODEL / VISION_BASE_URL */
+export type VisionTarget =
+  | { kind: "local"; baseUrl: string; model: string; apiKey?: string }
+  | { kind: "route"; route: ProviderModel };
 
-function imageKey(block: ImageBlock): string {
-  if (block.source.type === "url" && block.source.url) {
-    return "url:" + block.source.url;
+const ROUTE_PREFIXES: ProviderKey[] = ["openai", "openrouter", "gemini", "gemini-oauth", "codex-oauth", "glm", "anthropic"];
+
+/**
+ * Pick the vision backend:
+ * - VISION_BASE_URL: a local OpenAI-compatible server (VISION_MODEL, optional VISION_API_KEY)
+ * - VISION_MODEL as `provider:model` (e.g. `gemini-oauth:gemini-3-flash-preview`, `glm:glm-4.5v`)
+ * - VISION_MODEL without a provider: an OpenRouter model id
+ * - otherwise OpenRouter, a Gemini API key or a linked Google account, whichever is set up
+ */
+export function resolveVisionTarget(env: NodeJS.ProcessEnv, googleLinked: boolean): VisionTarget | null {
+  const model = env.VISION_MODEL?.trim();
+  if (env.VISION_BASE_URL) {
+    return { kind: "local", baseUrl: env.VISION_BASE_URL, model: model || "default", apiKey: env.VISION_API_KEY };
+  }
+  if (model) {
+    const sep = model.indexOf(":");
+    const prefix = sep > 0 ? (model.slice(0, sep).toLowerCase() as ProviderKey) : null;
+    if (prefix && ROUTE_PREFIXES.includes(prefix)) {
+      return { kind: "route", route: { provider: prefix, model: model.slice(sep + 1) } };
+    }
+    return { kind: "route", route: { provider: "openrouter", model } };
+  }
+  if (env.OPENROUTER_API_KEY) {
+    return { kind: "route", route: { provider: "openrouter", model: DEFAULT_OPENROUTER_VISION_MODEL } };
+  }
+  if (env.GEMINI_API_KEY) {
+    return { kind: "route", route: { provider: "gemini", model: DEFAULT_GEMINI_VISION_MODEL } };
   }
-  // Hash first 2048 chars of base64 + length for a fast, collision-resistant key
-  const data = block.source.data;
-  return createHash("sha256").update(data.slice(0, 2048) + ":" + data.length).digest("hex");
+  if (googleLinked) {
+    return { kind: "route", route: { provider: "gemini-oauth", model: DEFAULT_GEMINI_VISION_MODEL } };
+  }
+  return null;
+}
+
+/** Backend for an OpenAI-compatible Chat Completions server (LM Studio, Ollama, vLLM, ...) */
+export function openAICompatibleBackend(opts: { baseUrl: string; model: string; apiKey?: string }): VisionBackend {
+  const base = opts.baseUrl.replace(/\/+$/, "");
+  return {
+    name: `local:${base}:${opts.model}`,
+    async describe(source, prompt) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (opts.apiKey) headers.Authorization = `Bearer ${opts.apiKey}`;
+      const resp = await fetch(`${base}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: opts.model,
+          messages: [{
+            role: "user",
+            content: [{ type: "text", text: prompt }, { type: "image_url", image_url: { url: imageUrl(source) } }],
+          }],
+          max_tokens: 1024,
+        }),
+      });
+      if (!resp.ok) throw new Error(`Vision server returned ${resp.status}: ${(await resp.text()).slice(0, 300)}`);
+      const json = (await resp.json()) as { choices?: { message?: { content?: string | null } }[] };
+      return json.choices?.[0]?.message?.content?.trim() ?? "";
+    },
+  };
 }
 
 interface ImageBlock {
   type: "image";
-  source: { type: string; media_type: string; data: string; url?: string };
+  source: AnthropicImageSource;
 }
 
 function isImageBlock(block: any): block is ImageBlock {
   return block?.type === "image";
 }
 
-async function describeImage(
-  block: ImageBlock,
-  model: string,
-  apiKey: string
-): Promise<string> {
-  const content: any[] = [
-    { type: "text", text: DESCRIBE_PROMPT },
-  ];
-
-  if (block.source.type === "url" && block.source.url) {
-    content.push({
-      type: "image_url",
-      image_url: { url: block.source.url },
-    });
-  } else {
-    // base64
-    content.push({
-      type: "image_url",
-      image_url: {
-        url: `data:${block.source.media_type};base64,${block.source.data}`,
-      },
-    });
+/** Image blocks with the array holding them: message content or tool_result content */
+function findImages(body: AnthropicRequest) {
+  const found: { parts: any[]; idx: number; block: ImageBlock }[] = [];
+  for (const msg of body.messages) {
+    if (!Array.isArray(msg.content)) continue;
+    for (let i = 0; i < msg.content.length; i++) {
+      const block: any = msg.content[i];
+      if (isImageBlock(block)) found.push({ parts: msg.content, idx: i, block });
+      else if (block?.type === "tool_result" && Array.isArray(block.content)) {
+        for (let j = 0; j < block.content.length; j++) {
+          if (isImageBlock(block.content[j])) found.push({ parts: block.content, idx: j, block: block.content[j] });
+        }
+      }
+    }
   }
+  return found;
+}
 
-  const resp = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [{ role: "user", content }],
-      max_tokens: 1024,
-    }),
-  });
-
-  if (!resp.ok) {
-    const text = await resp.text();
-    console.error(`[ccx] Vision model error (${resp.status}): ${text}`);
-    return "[Image description unavailable]";
-  }
+/** Whether any message (or tool result) carries an image block */
+export function hasImageBlocks(body: AnthropicRequest): boolean {
+  return findImages(body).length > 0;
+}
 
-  const json = (await resp.json()) as any;
-  return json.choices?.[0]?.message?.content?.trim() ?? "[Image description unavailable]";
+async function describeImage(block: ImageBlock, backend: VisionBackend): Promise<string> {
+  try {
+    return (await backend.describe(block.source, DESCRIBE_PROMPT)).trim() || UNAVAILABLE;
+  } catch (e: any) {
+    console.error(`[ccx] Vision backend ${backend.name} failed: ${e.message}`);
+    return UNAVAILABLE;
+  }
 }
 
 /**
- * Scans messages for image blocks and replaces them with text descriptions.
- * Mutates body.messages in-place.
+ * Scans messages (and tool results) for image blocks and replaces them with
+ * text descriptions. Mutates body.messages in-place.
  */
 export async function preprocessImages(
   body: AnthropicRequest,
-  apiKey?: string
+  backend: VisionBackend | null
 ): Promise<void> {
-  if (!apiKey) {
-    console.warn("[ccx] OPENROUTER_API_KEY not set — skipping image preprocessing");
-    return;
-  }
-
-  const model = process.env.VISION_MODEL || DEFAULT_VISION_MODEL;
+  const tasks = findImages(body);
+  if (tasks.length === 0) return;
 
-  // Collect all image blocks with their location
-  const tasks: { msg: any; idx: number; block: ImageBlock }[] = [];
-  for (const msg of body.messages) {
-    if (!Array.isArray(msg.content)) continue;
-    for (let i = 0; i < msg.content.length; i++) {
-      if (isImageBlock(msg.content[i])) {
-        tasks.push({ msg, idx: i, block: msg.content[i] as ImageBlock });
-      }
-    }
+  if (!backend) {
+    console.warn("[ccx] No vision backend configured (set VISION_MODEL, OPENROUTER_API_KEY or log in to Google) — skipping image preprocessing");
+    return;
   }
 
-  if (tasks.length === 0) return;
-
   // Split into cached hits and new images that need describing
-  const uncached = tasks.filter((t) => !descriptionCache.has(imageKey(t.block)));
-  const cached = tasks.length - uncached.length;
-
-  if (uncached.length > 0) {
-    console.log(`[ccx] Describing ${uncached.length} new image(s) via ${model} (${cached} cached)...`);
-    const descriptions = await Promise.all(
-      uncached.map((t) => describeImage(t.block, model, apiKey))
-    );
-    for (let i = 0; i < uncached.length; i++) {
-      descriptionCache.set(imageKey(uncached[i].block), descriptions[i]);
-    }
-  } else {
-    console.log(`[ccx] All ${tasks.length} image(s) served from cache`);
-  }
+  const keys = tasks.map((t) => visionCacheKey(t.block.source, backend.name, DESCRIBE_PROMPT));
+  const descriptions = await Promise.all(keys.map((k) => getCachedDescription(k)));
+  const uncached = tasks.map((_, i) => i).filter((i) => descriptions[i] === null);
+
+  await Promise.all(
+    uncached.map(async (i) => {
+      const description = await describeImage(tasks[i].block, backend);
+      descriptions[i] = description;
+      // Failures aren't cached so the next request tries again
+      if (description !== UNAVAILABLE) {
+        await putCachedDescription(keys[i], { description, model: backend.name }).catch((e: any) =>
+          console.warn(`[ccx] Could not cache image description: ${e.message}`)
+        );
+      }
+    })
+  );
 
   // Replace image blocks with text descriptions (reverse order to preserve indices)
   for (let i = tasks.length - 1; i >= 0; i--) {
-    const { msg, idx } = tasks[i];
-    const desc = descriptionCache.get(imageKey(tasks[i].block))!;
-    msg.content[idx] = {
+    const { parts, idx } = tasks[i];
+    parts[idx] = {
       type: "text",
-      text: `[Image Description: ${desc}]`,
+      text: `[Image Description: ${descriptions[i]}]`,
     };
   }
 }
@@ -3,6 +3,8 @@
 // ccx - Multi-provider proxy for Claude Code (API key based)
 // Starts proxy, prints available models, launches claude, kills proxy on exit
 // Usage: ccx [--setup] [--status] [--restart] [--stop] [--proxy-status] [-d]
+//        ccx usage [--days N] [--by provider|model|project|session]
+//        ccx cache [--clear] [--prune]
 
 import { readFileSync, mkdirSync, writeFileSync, existsSync } from "fs";
 import { join } from "path";
@@ -10,6 +12,8 @@ import { homedir } from "os";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
 import { launchProxy, stopProxy, proxyStatus } from "./lib/proxy-launcher.js";
+import { readUsage, summarizeUsage, daysAgo, periodStart, GROUP_BY, LEDGER_FILE } from "./lib/usage-ledger.js";
+import { cacheStats, clearCache, pruneCache, cacheLimits } from "./lib/vision-cache.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -92,6 +96,119 @@ function showStatus() {
   }
 }
 
+// ── Usage report ─────────────────────────────────────────────────────
+
+function fmtTokens(n) {
+  if (n >= 1e6) return (n / 1e6).toFixed(1) + "M";
+  if (n >= 1e3) return (n / 1e3).toFixed(1) + "k";
+  return String(n);
+}
+
+function fmtCost(usd) {
+  if (!usd) return "$0";
+  if (usd < 0.01) return "<$0.01";
+  return usd >= 100 ? `$${usd.toFixed(0)}` : `$${usd.toFixed(2)}`;
+}
+
+function printUsageTable(title, { rows, totals }) {
+  console.log(`  ${title}`);
+  console.log("  " + "─".repeat(96));
+  if (rows.length === 0) {
+    console.log("    (no requests)");
+    console.log("");
+    return;
+  }
+  const header = ["", "Requests", "Errors", "Input", "Output", "Cached", "Latency", "Cost"];
+  const line = (r) => [
+    r.key.length > 24 ? r.key.slice(0, 23) + "…" : r.key,
+    String(r.requests), String(r.errors),
+    fmtTokens(r.inputTokens), fmtTokens(r.outputTokens), fmtTokens(r.cacheReadTokens),
+    `${(r.avgLatencyMs / 1000).toFixed(1)}s`,
+    fmtCost(r.costUsd) + (r.unpriced ? "*" : ""),
+  ];
+  const print = (cols) => console.log("    " + cols[0].padEnd(24) + cols.slice(1).map(c => c.padStart(8)).join("  "));
+  print(header);
+  for (const r of rows) print(line(r));
+  print(line(totals));
+  if (totals.unpriced) {
+    console.log(`    * ${totals.unpriced} request(s) on models without pricing — add them to ~/.claude-proxy/pricing.json`);
+  }
+  console.log("");
+}
+
+function argValue(args, flag) {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+async function showUsage(args) {
+  const days = Math.max(1, Number(argValue(args, "--days")) || 7);
+  const by = argValue(args, "--by");
+  if (by && !GROUP_BY.includes(by)) {
+    console.log(`  Unknown --by "${by}". Use one of: ${GROUP_BY.join(", ")}`);
+    return;
+  }
+
+  console.log(`  Usage ledger: ${LEDGER_FILE}`);
+  console.log("");
+
+  const since = daysAgo(days);
+  const recent = await readUsage({ since });
+
+  if (by) {
+    printUsageTable(`By ${by} (last ${days} days)`, summarizeUsage(recent, by));
+    return;
+  }
+
+  printUsageTable(`Daily (last ${days} days)`, summarizeUsage(recent, "day"));
+
+  // Four full weeks back from the start of this week
+  const weeksSince = new Date(periodStart("week").getTime() - 3 * 7 * 24 * 60 * 60 * 1000);
+  printUsageTable("Weekly (last 4 weeks)", summarizeUsage(await readUsage({ since: weeksSince }), "week"));
+}
+
+// ── Vision cache ─────────────────────────────────────────────────────
+
+function fmtBytes(n) {
+  if (n >= 1024 * 1024) return (n / 1024 / 1024).toFixed(1) + " MB";
+  if (n >= 1024) return (n / 1024).toFixed(1) + " KB";
+  return `${n} B`;
+}
+
+async function showCache(args) {
+  if (existsSync(ENV_FILE)) {
+    const { config } = await import("dotenv");
+    config({ path: ENV_FILE });
+  }
+
+  if (args.includes("--clear")) {
+    const removed = await clearCache();
+    console.log(`  Removed ${removed} cached image description(s)`);
+    return;
+  }
+  if (args.includes("--prune")) {
+    const removed = await pruneCache();
+    console.log(`  Pruned ${removed} entr${removed === 1 ? "y" : "ies"} over the cache limits`);
+  }
+
+  const stats = await cacheStats();
+  const limits = cacheLimits();
+  console.log(`  Vision cache: ${stats.dir}`);
+  console.log("  " + "─".repeat(60));
+  console.log(`    Entries      ${stats.entries} / ${limits.maxEntries}`);
+  console.log(`    Size         ${fmtBytes(stats.bytes)} / ${fmtBytes(limits.maxBytes)}`);
+  if (stats.entries) {
+    console.log(`    Last used    ${stats.newest.toLocaleString()}`);
+    console.log(`    Oldest use   ${stats.oldest.toLocaleString()}`);
+    for (const [model, n] of Object.entries(stats.byModel)) {
+      console.log(`    ${model.padEnd(28)} ${n}`);
+    }
+  }
+  console.log("");
+  console.log("  ccx cache --clear   delete all entries");
+  console.log("  ccx cache --prune   evict least recently used entries over the limits");
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -100,6 +217,8 @@ async function main() {
   console.log("  ===========================================");
   console.log("");
 
+  if (args[0] === "usage") { await showUsage(args.slice(1)); return; }
+  if (args[0] === "cache") { await showCache(args.slice(1)); console.log(""); return; }
   if (args.includes("--setup")) { setup(); console.log(""); return; }
   if (args.includes("--stop")) { await stopProxy(); console.log(""); return; }
   if (args.includes("--proxy-status")) { await proxyStatus(); console.log(""); return; }
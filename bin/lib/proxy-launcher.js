@@ -103,6 +103,10 @@ export async function launchProxy({ rootDir, provider, model, defaultModel, star
   // Launch claude
   console.log("");
 
+  // Tag requests with the project directory so the usage ledger can group by project
+  const cwdHeader = `x-ccx-cwd: ${encodeURIComponent(process.cwd())}`;
+  const customHeaders = [process.env.ANTHROPIC_CUSTOM_HEADERS, cwdHeader].filter(Boolean).join("\n");
+
   const claudeArgs = ["--model", defaultModel, ...extraArgs];
   const claude = spawn("claude", claudeArgs, {
     stdio: "inherit",
@@ -110,6 +114,7 @@ export async function launchProxy({ rootDir, provider, model, defaultModel, star
       ...process.env,
       ANTHROPIC_BASE_URL: `http://127.0.0.1:${PORT}`,
       ANTHROPIC_AUTH_TOKEN: process.env.ANTHROPIC_AUTH_TOKEN || "local-proxy-token",
+      ANTHROPIC_CUSTOM_HEADERS: customHeaders,
     },
   });
 
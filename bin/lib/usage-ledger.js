@@ -0,0 +1,129 @@
+// Usage ledger — ALL usage persistence and aggregation lives here
+//
+// One JSON line per /v1/messages call in ~/.claude-proxy/usage.jsonl
+//
+// Used by:
+//   - Gateway (anthropic-gateway.ts) → appendUsage(), readUsage(), summarizeUsage()
+//   - CLI (ccx.js usage)             → readUsage(), summarizeUsage()
+
+import { readFile, appendFile, mkdir } from "fs/promises";
+import { dirname, join, basename } from "path";
+import { homedir } from "os";
+
+export const LEDGER_FILE = join(homedir(), ".claude-proxy", "usage.jsonl");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Write / Read ─────────────────────────────────────────────────────
+
+/** Append one usage entry (adds `ts` if missing) */
+export async function appendUsage(entry, file = LEDGER_FILE) {
+  await mkdir(dirname(file), { recursive: true });
+  const line = JSON.stringify({ ts: new Date().toISOString(), ...entry });
+  await appendFile(file, line + "\n", "utf-8");
+}
+
+/** Read entries with since <= ts < until (Date or ms). Skips corrupt lines. */
+export async function readUsage({ since, until } = {}, file = LEDGER_FILE) {
+  let text;
+  try { text = await readFile(file, "utf-8"); }
+  catch { return []; }
+
+  const from = since ? new Date(since).getTime() : -Infinity;
+  const to = until ? new Date(until).getTime() : Infinity;
+  const entries = [];
+  for (const line of text.split("\n")) {
+    if (!line) continue;
+    try {
+      const e = JSON.parse(line);
+      const t = new Date(e.ts).getTime();
+      if (t >= from && t < to) entries.push(e);
+    } catch {}
+  }
+  return entries;
+}
+
+// ── Periods ──────────────────────────────────────────────────────────
+
+function pad(n) { return String(n).padStart(2, "0"); }
+
+/** Local calendar day, e.g. "2026-10-19" */
+export function dayKey(date) {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Start of the local day / ISO week (Monday) / month containing `now` */
+export function periodStart(period, now = new Date()) {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  if (period === "week") d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  if (period === "month") d.setDate(1);
+  return d;
+}
+
+/** Start of the window covering the last `days` local days (including today) */
+export function daysAgo(days, now = new Date()) {
+  return new Date(periodStart("day", now).getTime() - (days - 1) * DAY_MS);
+}
+
+// ── Aggregation ──────────────────────────────────────────────────────
+
+const GROUP_KEYS = {
+  day: (e) => dayKey(e.ts),
+  week: (e) => "week of " + dayKey(periodStart("week", new Date(e.ts))),
+  provider: (e) => e.provider || "unknown",
+  model: (e) => `${e.provider || "unknown"}:${e.model || "unknown"}`,
+  project: (e) => (e.cwd ? basename(e.cwd) : "(unknown)"),
+  session: (e) => e.session || "(none)",
+};
+
+export const GROUP_BY = Object.keys(GROUP_KEYS);
+
+function emptyRow(key) {
+  return {
+    key, requests: 0, errors: 0,
+    inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0,
+    costUsd: 0, unpriced: 0, latencyMs: 0,
+  };
+}
+
+function addEntry(row, e) {
+  row.requests++;
+  if (e.status !== "ok") row.errors++;
+  row.inputTokens += e.inputTokens || 0;
+  row.outputTokens += e.outputTokens || 0;
+  row.cacheReadTokens += e.cacheReadTokens || 0;
+  row.cacheWriteTokens += e.cacheWriteTokens || 0;
+  row.costUsd += e.costUsd || 0;
+  // Successful requests on models missing from the pricing table
+  if (e.status === "ok" && e.costUsd === undefined) row.unpriced++;
+  row.latencyMs += e.latencyMs || 0;
+}
+
+function finishRow(row) {
+  const { latencyMs, ...rest } = row;
+  return { ...rest, avgLatencyMs: row.requests ? Math.round(latencyMs / row.requests) : 0 };
+}
+
+/** Group entries (day | week | provider | model | project | session) → sorted rows + totals */
+export function summarizeUsage(entries, groupBy = "day") {
+  const keyOf = GROUP_KEYS[groupBy];
+  if (!keyOf) throw new Error(`Unknown group "${groupBy}". Use one of: ${GROUP_BY.join(", ")}`);
+
+  const rows = new Map();
+  const totals = emptyRow("total");
+  for (const e of entries) {
+    const key = keyOf(e);
+    if (!rows.has(key)) rows.set(key, emptyRow(key));
+    addEntry(rows.get(key), e);
+    addEntry(totals, e);
+  }
+
+  const sorted = [...rows.values()].map(finishRow);
+  // Time groupings read chronologically; everything else by volume
+  if (groupBy === "day" || groupBy === "week") sorted.sort((a, b) => a.key.localeCompare(b.key));
+  else sorted.sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+
+  return { rows: sorted, totals: finishRow(totals) };
+}
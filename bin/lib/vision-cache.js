@@ -0,0 +1,128 @@
+// Vision description cache — ALL persistence for image descriptions lives here
+//
+// One JSON file per description in ~/.claude-proxy/vision-cache/<key>.json, where
+// the key is a SHA-256 of the full image content plus the vision model and prompt.
+// File mtimes track last use; the least recently used entries are evicted first.
+//
+// Used by:
+//   - Gateway (vision-preprocess.ts) → visionCacheKey(), getCachedDescription(), putCachedDescription()
+//   - CLI (ccx.js cache)             → cacheStats(), clearCache(), pruneCache()
+
+import { readFile, writeFile, rename, readdir, stat, unlink, utimes, mkdir } from "fs/promises";
+import { createHash } from "crypto";
+import { join } from "path";
+import { homedir } from "os";
+
+export const CACHE_DIR = join(homedir(), ".claude-proxy", "vision-cache");
+
+export const DEFAULT_LIMITS = { maxEntries: 5000, maxBytes: 50 * 1024 * 1024 };
+
+/** Limits from VISION_CACHE_MAX_ENTRIES / VISION_CACHE_MAX_MB, else the defaults */
+export function cacheLimits(env = process.env) {
+  const entries = Number(env.VISION_CACHE_MAX_ENTRIES);
+  const mb = Number(env.VISION_CACHE_MAX_MB);
+  return {
+    maxEntries: entries > 0 ? entries : DEFAULT_LIMITS.maxEntries,
+    maxBytes: mb > 0 ? mb * 1024 * 1024 : DEFAULT_LIMITS.maxBytes,
+  };
+}
+
+/** Cache key for an image source ({type:"base64",data} or {type:"url",url}) described by `model` with `prompt` */
+export function visionCacheKey(source, model, prompt) {
+  const hash = createHash("sha256");
+  hash.update(`${model}\0${prompt}\0`);
+  hash.update(source.type === "url" ? `url:${source.url}` : `base64:${source.data}`);
+  return hash.digest("hex");
+}
+
+const entryFile = (key, dir) => join(dir, `${key}.json`);
+
+// ── Read / Write ─────────────────────────────────────────────────────
+
+/** Cached description for `key`, or null. A hit marks the entry as recently used. */
+export async function getCachedDescription(key, dir = CACHE_DIR) {
+  const file = entryFile(key, dir);
+  try {
+    const entry = JSON.parse(await readFile(file, "utf-8"));
+    const now = new Date();
+    await utimes(file, now, now).catch(() => {});
+    return typeof entry.description === "string" ? entry.description : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Store a description, then evict old entries if the cache is over its limits */
+export async function putCachedDescription(key, { description, model }, { dir = CACHE_DIR, limits = cacheLimits() } = {}) {
+  await mkdir(dir, { recursive: true });
+  const file = entryFile(key, dir);
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify({ key, model, description, createdAt: new Date().toISOString() }), "utf-8");
+  await rename(tmp, file);
+  await pruneCache({ dir, ...limits });
+}
+
+// ── Maintenance ──────────────────────────────────────────────────────
+
+/** All entries with their size and last use, most recently used first */
+async function listEntries(dir) {
+  let names;
+  try { names = await readdir(dir); }
+  catch { return []; }
+
+  const entries = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    try {
+      const s = await stat(join(dir, name));
+      entries.push({ file: join(dir, name), bytes: s.size, usedAt: s.mtimeMs });
+    } catch {}
+  }
+  return entries.sort((a, b) => b.usedAt - a.usedAt);
+}
+
+/** Evict least recently used entries beyond maxEntries / maxBytes. Returns how many were removed. */
+export async function pruneCache({ dir = CACHE_DIR, maxEntries, maxBytes } = {}) {
+  const limits = { ...cacheLimits(), ...(maxEntries && { maxEntries }), ...(maxBytes && { maxBytes }) };
+  const entries = await listEntries(dir);
+  let kept = 0;
+  let bytes = 0;
+  let removed = 0;
+  for (const e of entries) {
+    if (kept < limits.maxEntries && bytes + e.bytes <= limits.maxBytes) {
+      kept++;
+      bytes += e.bytes;
+    } else {
+      await unlink(e.file).catch(() => {});
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/** Entry count, total size, model breakdown and oldest / newest use */
+export async function cacheStats(dir = CACHE_DIR) {
+  const entries = await listEntries(dir);
+  const byModel = {};
+  for (const e of entries) {
+    try {
+      const { model } = JSON.parse(await readFile(e.file, "utf-8"));
+      byModel[model || "unknown"] = (byModel[model || "unknown"] || 0) + 1;
+    } catch {}
+  }
+  return {
+    dir,
+    entries: entries.length,
+    bytes: entries.reduce((n, e) => n + e.bytes, 0),
+    byModel,
+    newest: entries.length ? new Date(entries[0].usedAt) : null,
+    oldest: entries.length ? new Date(entries[entries.length - 1].usedAt) : null,
+  };
+}
+
+/** Delete every entry. Returns how many were removed. */
+export async function clearCache(dir = CACHE_DIR) {
+  const entries = await listEntries(dir);
+  for (const e of entries) await unlink(e.file).catch(() => {});
+  return entries.length;
+}
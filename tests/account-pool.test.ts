@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from "vitest";
+import { createAccountPool, parseStrategy } from "../adapters/account-pool.js";
+
+vi.spyOn(console, "warn").mockImplementation(() => {});
+
+const poolOf = (accounts: number[], strategy?: "round-robin" | "least-recently-rate-limited") =>
+  createAccountPool({ name: "test", listAccounts: async () => accounts, strategy, cooldownMs: 60_000 });
+
+describe("createAccountPool", () => {
+  it("round-robin cycles through accounts in order", async () => {
+    const pool = poolOf([3, 1, 2], "round-robin");
+    const picks = [];
+    for (let i = 0; i < 4; i++) picks.push(await pool.pick());
+    expect(picks).toEqual([1, 2, 3, 1]);
+  });
+
+  it("least-recently-rate-limited spreads requests over healthy accounts", async () => {
+    const pool = poolOf([1, 2]);
+    const picks = [];
+    for (let i = 1; i <= 4; i++) picks.push(await pool.pick(undefined, i * 1000));
+    expect(picks).toEqual([1, 2, 1, 2]);
+    const [one, two] = await pool.status(5000);
+    expect([one.requests, two.requests]).toEqual([2, 2]);
+  });
+
+  it("least-recently-rate-limited prefers accounts limited longest ago", async () => {
+    const pool = poolOf([1, 2, 3]);
+    expect(await pool.pick(undefined, 1000)).toBe(1);
+
+    pool.markRateLimited(1, null, undefined, 3000);
+    expect(await pool.pick(undefined, 4000)).toBe(2);
+
+    pool.markRateLimited(2, 1000, undefined, 5000);
+    // 2 is off cooldown again but was limited more recently than never-limited 3
+    expect(await pool.pick(undefined, 7000)).toBe(3);
+    expect(await pool.pick(undefined, 8000)).toBe(3);
+  });
+
+  it("skips excluded accounts and those cooling down", async () => {
+    const pool = poolOf([1, 2, 3], "round-robin");
+    pool.markRateLimited(2, 10_000, undefined, 0);
+    expect(await pool.pick(new Set([1]), 1000)).toBe(3);
+    expect(await pool.pick(new Set([1, 3]), 1000)).toBe(2); // only one left: use it anyway
+    expect(await pool.pick(new Set([1, 2, 3]), 1000)).toBeNull();
+  });
+
+  it("picks the account that frees up soonest when all are cooling down", async () => {
+    const pool = poolOf([1, 2]);
+    pool.markRateLimited(1, 30_000, undefined, 0);
+    pool.markRateLimited(2, 5_000, undefined, 0);
+    expect(await pool.pick(undefined, 1000)).toBe(2);
+  });
+
+  it("reports per-account state and clears cooldowns on success", async () => {
+    const pool = poolOf([1, 2]);
+    pool.markRateLimited(1, null, "Gemini API returned 429", 0);
+    let [one, two] = await pool.status(10_000);
+    expect(one).toMatchObject({ account: 1, status: "cooling_down", cooldownRemainingMs: 50_000, rateLimits: 1, lastError: "Gemini API returned 429" });
+    expect(two).toMatchObject({ account: 2, status: "ready", rateLimits: 0 });
+
+    pool.markSuccess(1);
+    [one] = await pool.status(10_000);
+    expect(one).toMatchObject({ status: "ready", cooldownRemainingMs: 0, rateLimits: 1 });
+    expect(one.lastError).toBeUndefined();
+  });
+});
+
+describe("parseStrategy", () => {
+  it("accepts known strategies and defaults otherwise", () => {
+    expect(parseStrategy(" Round-Robin ")).toBe("round-robin");
+    expect(parseStrategy(undefined)).toBe("least-recently-rate-limited");
+    expect(parseStrategy("random")).toBe("least-recently-rate-limited");
+  });
+});
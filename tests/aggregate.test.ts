@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { createCollectingReply, createMessageAccumulator } from "../adapters/aggregate.js";
+
+function sse(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+const START = sse("message_start", {
+  type: "message_start",
+  message: {
+    id: "msg_1", type: "message", role: "assistant", model: "gpt-5.3-codex",
+    content: [], stop_reason: null, stop_sequence: null,
+    usage: { input_tokens: 12, output_tokens: 0 },
+  },
+});
+
+describe("createMessageAccumulator", () => {
+  it("rebuilds thinking, text and tool_use blocks", () => {
+    const acc = createMessageAccumulator();
+    acc.feed(START);
+    acc.feed(sse("content_block_start", { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } }));
+    acc.feed(sse("content_block_delta", { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Let me " } }));
+    acc.feed(sse("content_block_delta", { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "check." } }));
+    acc.feed(sse("content_block_stop", { type: "content_block_stop", index: 0 }));
+    acc.feed(sse("content_block_start", { type: "content_block_start", index: 1, content_block: { type: "text", text: "" } }));
+    acc.feed(sse("content_block_delta", { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "Reading" } }));
+    acc.feed(sse("content_block_stop", { type: "content_block_stop", index: 1 }));
+    acc.feed(sse("content_block_start", { type: "content_block_start", index: 2, content_block: { type: "tool_use", id: "toolu_1", name: "Read", input: {} } }));
+    acc.feed(sse("content_block_delta", { type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: '{"file_pa' } }));
+    acc.feed(sse("content_block_delta", { type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: 'th":"/a"}' } }));
+    acc.feed(sse("content_block_stop", { type: "content_block_stop", index: 2 }));
+    acc.feed(sse("message_delta", { type: "message_delta", delta: { stop_reason: "tool_use", stop_sequence: null }, usage: { output_tokens: 42 } }));
+    acc.feed(sse("message_stop", { type: "message_stop" }));
+
+    const msg = acc.message()!;
+    expect(msg.id).toBe("msg_1");
+    expect(msg.stop_reason).toBe("tool_use");
+    expect(msg.usage).toEqual({ input_tokens: 12, output_tokens: 42 });
+    expect(msg.content).toEqual([
+      { type: "thinking", thinking: "Let me check." },
+      { type: "text", text: "Reading" },
+      { type: "tool_use", id: "toolu_1", name: "Read", input: { file_path: "/a" } },
+    ]);
+  });
+
+  it("handles events split across chunks", () => {
+    const acc = createMessageAccumulator();
+    const stream = START + sse("content_block_start", { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } });
+    acc.feed(stream.slice(0, 37));
+    acc.feed(stream.slice(37));
+    expect(acc.message()!.content).toEqual([{ type: "text", text: "" }]);
+  });
+
+  it("records in-stream errors", () => {
+    const acc = createMessageAccumulator();
+    acc.feed(sse("error", { type: "error", error: { type: "overloaded_error", message: "Overloaded" } }));
+    expect(acc.error()).toEqual({ type: "overloaded_error", message: "Overloaded" });
+  });
+});
+
+describe("createCollectingReply", () => {
+  it("collects byte chunks written to raw", () => {
+    const collector = createCollectingReply();
+    const bytes = new TextEncoder().encode(START);
+    collector.reply.raw.write(bytes);
+    collector.reply.raw.end();
+    expect(collector.finish().model).toBe("gpt-5.3-codex");
+  });
+
+  it("throws with a mapped status on stream errors", () => {
+    const collector = createCollectingReply();
+    collector.reply.raw.write(sse("error", { type: "error", error: { type: "rate_limit_error", message: "slow down" } }));
+    expect(() => collector.finish()).toThrowError(expect.objectContaining({ message: "slow down", statusCode: 429 }));
+  });
+
+  it("throws when nothing was streamed", () => {
+    const collector = createCollectingReply();
+    expect(() => collector.finish()).toThrow("empty stream");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { evaluateBudgets, keyIdOf } from "../adapters/budgets.js";
+import type { BudgetConfig, SpendEntry } from "../adapters/budgets.js";
+
+const NOW = new Date(2026, 9, 19, 15, 0, 0);
+const today = (h: number) => new Date(2026, 9, 19, h).toISOString();
+const earlierThisMonth = new Date(2026, 9, 3, 12).toISOString();
+
+const ENTRIES: SpendEntry[] = [
+  { ts: today(9), provider: "openrouter", costUsd: 3, inputTokens: 1000, outputTokens: 100 },
+  { ts: today(10), provider: "openrouter", costUsd: 1.5, inputTokens: 1000, outputTokens: 100, keyId: keyIdOf("alice") },
+  { ts: earlierThisMonth, provider: "openai", costUsd: 40, inputTokens: 9_000_000, outputTokens: 500_000 },
+];
+
+const OPENROUTER = { provider: "openrouter" as const, model: "anthropic/claude-sonnet-4.5" };
+const OPENAI = { provider: "openai" as const, model: "gpt-5.3" };
+
+describe("evaluateBudgets", () => {
+  it("allows requests under budget and reports crossed thresholds", () => {
+    const config: BudgetConfig = { warnAt: [0.5, 0.8], budgets: [{ provider: "openrouter", period: "day", maxCostUsd: 5 }] };
+    const decision = evaluateBudgets(config, ENTRIES, OPENROUTER, undefined, NOW);
+    expect(decision.action).toBe("allow");
+    expect(decision.warnings).toHaveLength(1);
+    expect(decision.warnings[0].message).toContain("90%");
+    expect(decision.warnings[0].id).toContain("|0.8");
+  });
+
+  it("rejects with time until the period resets", () => {
+    const config: BudgetConfig = { budgets: [{ provider: "openrouter", period: "day", maxCostUsd: 4 }] };
+    const decision = evaluateBudgets(config, ENTRIES, OPENROUTER, undefined, NOW);
+    expect(decision).toMatchObject({ action: "reject", retryAfterSec: 9 * 60 * 60 });
+    if (decision.action === "reject") expect(decision.message).toContain("openrouter daily budget exceeded");
+  });
+
+  it("ignores budgets for other providers and keys", () => {
+    const config: BudgetConfig = {
+      budgets: [
+        { provider: "openai", period: "day", maxCostUsd: 1 },
+        { apiKey: "alice", period: "month", maxCostUsd: 1 },
+      ],
+    };
+    expect(evaluateBudgets(config, ENTRIES, OPENROUTER, keyIdOf("bob"), NOW).action).toBe("allow");
+    expect(evaluateBudgets(config, ENTRIES, OPENROUTER, keyIdOf("alice"), NOW).action).toBe("reject");
+  });
+
+  it("downgrades to the configured model when it has room", () => {
+    const config: BudgetConfig = {
+      budgets: [{ provider: "openai", period: "month", maxTokens: 9_000_000, onExceed: "downgrade", downgradeTo: "openrouter:minimax/minimax-m2.5" }],
+    };
+    const decision = evaluateBudgets(config, ENTRIES, OPENAI, undefined, NOW);
+    expect(decision).toMatchObject({ action: "downgrade", route: { provider: "openrouter", model: "minimax/minimax-m2.5" } });
+  });
+
+  it("rejects when the downgrade target is over budget too", () => {
+    const config: BudgetConfig = {
+      budgets: [
+        { provider: "openai", period: "month", maxCostUsd: 10, onExceed: "downgrade", downgradeTo: "openrouter:minimax/minimax-m2.5" },
+        { provider: "openrouter", period: "day", maxCostUsd: 2 },
+      ],
+    };
+    expect(evaluateBudgets(config, ENTRIES, OPENAI, undefined, NOW).action).toBe("reject");
+  });
+});
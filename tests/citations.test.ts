@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fromGeminiGrounding, fromUrlCitation } from "../adapters/citations.js";
+import { createCollectingReply } from "../adapters/aggregate.js";
+import { codexAuthStub, upstream } from "./helpers/sse.js";
+
+vi.mock("../adapters/openai-auth.js", () => codexAuthStub());
+
+const { chatCodexOAuth } = await import("../adapters/providers/codex-oauth.js");
+const { chatGeminiOAuth } = await import("../adapters/providers/gemini-oauth.js");
+
+const BODY = { model: "x", max_tokens: 100, messages: [{ role: "user" as const, content: "who won?" }] };
+
+const GROUNDING = {
+  webSearchQueries: ["final score"],
+  groundingChunks: [
+    { web: { uri: "https://a.example/match", title: "a.example" } },
+    { web: { uri: "https://b.example/report", title: "b.example" } },
+  ],
+  groundingSupports: [
+    { segment: { startIndex: 0, endIndex: 12, text: "Team A won." }, groundingChunkIndices: [0, 1] },
+    { segment: { startIndex: 13, endIndex: 20, text: "It was 2-1." }, groundingChunkIndices: [1] },
+  ],
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("fromGeminiGrounding", () => {
+  it("turns queries and chunks into a search and supports into citations", () => {
+    const { search, citations } = fromGeminiGrounding(GROUNDING);
+    expect(search).toEqual({
+      query: "final score",
+      results: [
+        { url: "https://a.example/match", title: "a.example" },
+        { url: "https://b.example/report", title: "b.example" },
+      ],
+    });
+    expect(citations.map((c) => [c.url, c.cited_text])).toEqual([
+      ["https://a.example/match", "Team A won."],
+      ["https://b.example/report", "Team A won."],
+      ["https://b.example/report", "It was 2-1."],
+    ]);
+    expect(citations[0]).toMatchObject({ type: "web_search_result_location", title: "a.example", encrypted_index: "" });
+  });
+
+  it("returns nothing for an answer that wasn't grounded", () => {
+    expect(fromGeminiGrounding({})).toEqual({ search: null, citations: [] });
+  });
+});
+
+describe("fromUrlCitation", () => {
+  it("cites the annotated span of the output text", () => {
+    const text = "Team A won ([a.example](https://a.example/match)).";
+    const citation = fromUrlCitation(
+      { type: "url_citation", url: "https://a.example/match", title: "Match report", start_index: 11, end_index: 48 },
+      text
+    );
+    expect(citation).toMatchObject({ url: "https://a.example/match", title: "Match report", cited_text: text.slice(11, 48) });
+    expect(fromUrlCitation({ type: "file_citation", file_id: "f" }, text)).toBeNull();
+  });
+});
+
+describe("web search blocks from native search", () => {
+  it("gemini: cites grounding sources on the answer and adds the search and its results", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    upstream([
+      { candidates: [{ content: { parts: [{ text: "Team A won. " }] } }] },
+      { candidates: [{ content: { parts: [{ text: "It was 2-1." }] }, finishReason: "STOP", groundingMetadata: GROUNDING }] },
+    ]);
+    const collector = createCollectingReply();
+
+    await chatGeminiOAuth(collector.reply, BODY, "gemini-2.5-flash", "key");
+
+    const { content, stop_reason } = collector.finish();
+    expect(content.map((b) => b.type)).toEqual(["text", "server_tool_use", "web_search_tool_result"]);
+    expect(content[0].citations).toHaveLength(3);
+    expect(content[1]).toMatchObject({ name: "web_search", input: { query: "final score" } });
+    expect(content[2].tool_use_id).toBe(content[1].id);
+    expect(content[2].content.map((r: any) => r.url)).toEqual(["https://a.example/match", "https://b.example/report"]);
+    expect(stop_reason).toBe("end_turn");
+  });
+
+  it("codex: shows each web_search_call with its sources and cites URL annotations", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const answer = "Team A won ([a.example](https://a.example/match)).";
+    const { fetchMock } = upstream([
+      {
+        type: "response.output_item.done",
+        output_index: 0,
+        item: {
+          type: "web_search_call",
+          id: "ws_1",
+          status: "completed",
+          action: { type: "search", query: "final score", sources: [{ type: "url", url: "https://a.example/match" }] },
+        },
+      },
+      { type: "response.output_text.delta", output_index: 1, content_index: 0, delta: answer },
+      {
+        type: "response.output_text.annotation.added",
+        output_index: 1,
+        content_index: 0,
+        annotation: { type: "url_citation", url: "https://a.example/match", title: "Match", start_index: 11, end_index: 48 },
+      },
+      { type: "response.completed", response: { status: "completed" } },
+    ]);
+    const collector = createCollectingReply();
+
+    await chatCodexOAuth(collector.reply, BODY, "gpt-5.3-codex");
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).include).toContain("web_search_call.action.sources");
+    const { content } = collector.finish();
+    expect(content.map((b) => b.type)).toEqual(["server_tool_use", "web_search_tool_result", "text"]);
+    expect(content[0]).toEqual({ type: "server_tool_use", id: "srvtoolu_ws_1", name: "web_search", input: { query: "final score" } });
+    expect(content[1].content).toEqual([
+      { type: "web_search_result", url: "https://a.example/match", title: "https://a.example/match", encrypted_content: "", page_age: null },
+    ]);
+    expect(content[2].citations).toEqual([
+      {
+        type: "web_search_result_location",
+        url: "https://a.example/match",
+        title: "Match",
+        cited_text: answer.slice(11, 48),
+        encrypted_index: "",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach, beforeEach, afterAll } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { createAccountPool } from "../adapters/account-pool.js";
+import type { AccountPool } from "../adapters/account-pool.js";
+import { codexAuthStub, recordingReply, sseResponse } from "./helpers/sse.js";
+
+// ~/.claude-proxy and ~/.codex live in a scratch home directory
+const HOME = vi.hoisted(() => `${process.env.TMPDIR || "/tmp"}/ccx-codex-pool-test-${process.pid}`);
+vi.mock("os", async (importOriginal) => ({ ...(await importOriginal<typeof import("os")>()), homedir: () => HOME }));
+
+// The adapter gets a fresh two-account pool per test; token N belongs to account N
+const current = vi.hoisted(() => ({ pool: null as AccountPool | null }));
+vi.mock("../adapters/openai-auth.js", () =>
+  codexAuthStub({ getCodexAccessToken: async (account: number) => `token-${account}`, getCodexPool: () => current.pool }),
+);
+
+const { chatCodexOAuth } = await import("../adapters/providers/codex-oauth.js");
+const auth = await vi.importActual<typeof import("../adapters/openai-auth.js")>("../adapters/openai-auth.js");
+
+const BODY = { model: "x", max_tokens: 100, messages: [{ role: "user" as const, content: "hi" }] };
+
+const usageLimit = () =>
+  new Response(JSON.stringify({ error: { type: "usage_limit_reached", message: "The usage limit has been reached" } }), { status: 429 });
+
+const bearer = (call: any[]) => call[1].headers.Authorization;
+
+beforeEach(() => {
+  current.pool = createAccountPool({ name: "codex-oauth", listAccounts: async () => [1, 2], cooldownMs: 60_000 });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+afterAll(async () => {
+  await rm(HOME, { recursive: true, force: true });
+});
+
+describe("codex account rotation", () => {
+  it("moves on to the next account when one is rate limited before anything was sent", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(usageLimit())
+      .mockResolvedValueOnce(sseResponse([
+        { type: "response.output_text.delta", output_index: 0, delta: "Hello" },
+        { type: "response.completed", response: { status: "completed" } },
+      ]));
+    vi.stubGlobal("fetch", fetchMock);
+    const { reply, events } = recordingReply();
+
+    await chatCodexOAuth(reply, BODY, "gpt-5.3-codex");
+
+    expect(fetchMock.mock.calls.map(bearer)).toEqual(["Bearer token-1", "Bearer token-2"]);
+    expect(events.find((e) => e.delta?.type === "text_delta")?.delta.text).toBe("Hello");
+    const [one, two] = await current.pool!.status();
+    expect(one).toMatchObject({ account: 1, status: "cooling_down", rateLimits: 1 });
+    expect(two).toMatchObject({ account: 2, status: "ready", rateLimits: 0 });
+  });
+
+  it("keeps the account once output has streamed, even if it then hits its limit", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      { type: "response.output_text.delta", output_index: 0, delta: "Partial" },
+      { type: "response.failed", response: { error: { code: "usage_limit_reached", message: "The usage limit has been reached" } } },
+    ]));
+    vi.stubGlobal("fetch", fetchMock);
+    const { reply, events } = recordingReply();
+
+    await chatCodexOAuth(reply, BODY, "gpt-5.3-codex");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(events.filter((e) => e.type === "message_start")).toHaveLength(1);
+    expect(events.find((e) => e.delta?.type === "text_delta")?.delta.text).toBe("Partial");
+    expect((await current.pool!.status()).every((s) => s.rateLimits === 0)).toBe(true);
+  });
+
+  it("passes the last rate limit on when every account is limited", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => usageLimit());
+    vi.stubGlobal("fetch", fetchMock);
+    const { reply } = recordingReply();
+
+    await expect(chatCodexOAuth(reply, BODY, "gpt-5.3-codex")).rejects.toMatchObject({ statusCode: 429 });
+    expect(fetchMock.mock.calls.map(bearer)).toEqual(["Bearer token-1", "Bearer token-2"]);
+  });
+});
+
+describe("listCodexAccounts", () => {
+  it("lists linked accounts from their token files, in order", async () => {
+    const dir = join(HOME, ".claude-proxy");
+    await mkdir(dir, { recursive: true });
+    for (const f of ["codex-oauth-3.json", "codex-oauth.json", "codex-oauth-x.json", "codex-oauth-0.json", "google-oauth-2.json"]) {
+      await writeFile(join(dir, f), "{}");
+    }
+    expect(await auth.listCodexAccounts()).toEqual([1, 3]);
+  });
+});
+
+describe("codex login callback", () => {
+  it("rejects a callback whose state doesn't match a pending login, and drops the pending flows", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const state = new URL(auth.buildCodexLoginUrl(8082, 2)).searchParams.get("state")!;
+
+    await expect(auth.handleCodexOAuthCallback("code", `${state}x`)).rejects.toThrow(/state mismatch/);
+    await expect(auth.handleCodexOAuthCallback("code", state)).rejects.toThrow(/No pending OAuth flow/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { codexAuthStub, recordingReply, upstream } from "./helpers/sse.js";
+
+vi.mock("../adapters/openai-auth.js", () => codexAuthStub());
+
+const { chatCodexOAuth, toResponsesInput } = await import("../adapters/providers/codex-oauth.js");
+
+const BODY = { model: "x", max_tokens: 100, messages: [{ role: "user" as const, content: "hi" }] };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("codex reasoning continuity", () => {
+  it("requests encrypted reasoning and returns it as the thinking block signature", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    const { fetchMock } = upstream([
+      { type: "response.output_item.added", output_index: 0, item: { type: "reasoning", id: "rs_1" } },
+      { type: "response.reasoning_summary_text.delta", output_index: 0, delta: "Plan it" },
+      { type: "response.output_item.done", output_index: 0, item: { type: "reasoning", id: "rs_1", encrypted_content: "ENC1" } },
+      { type: "response.output_text.delta", output_index: 1, delta: "Hello" },
+      { type: "response.completed", response: { status: "completed" } },
+    ]);
+
+    await chatCodexOAuth(reply, BODY, "gpt-5.3-codex");
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).include).toContain("reasoning.encrypted_content");
+    const signature = events.find((e) => e.delta?.type === "signature_delta");
+    expect(signature).toMatchObject({ index: 0, delta: { signature: "codex-reasoning:ENC1" } });
+    expect(events.find((e) => e.type === "content_block_start" && e.index === 1).content_block.type).toBe("text");
+  });
+
+  it("uses a redacted_thinking block when no summary was streamed", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    upstream([
+      { type: "response.output_item.done", output_index: 0, item: { type: "reasoning", id: "rs_1", summary: [], encrypted_content: "ENC2" } },
+      { type: "response.output_text.delta", output_index: 1, delta: "Hello" },
+    ]);
+
+    await chatCodexOAuth(reply, BODY, "gpt-5.3-codex");
+
+    expect(events.find((e) => e.type === "content_block_start").content_block).toEqual({
+      type: "redacted_thinking",
+      data: "codex-reasoning:ENC2",
+    });
+  });
+
+  it("replays its own reasoning before the assistant output and skips foreign signatures", () => {
+    const items = toResponsesInput([
+      { role: "user", content: "fix it" },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Plan it", signature: "codex-reasoning:ENC1" },
+          { type: "thinking", thinking: "from claude", signature: "EqQBCkgIARABGAIiQL" },
+          { type: "redacted_thinking", data: "codex-reasoning:ENC2" },
+          { type: "tool_use", id: "call_1", name: "Read", input: { path: "a" } },
+        ],
+      },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: "ok" }] },
+    ]);
+
+    expect(items.map((i) => i.type)).toEqual(["message", "reasoning", "reasoning", "function_call", "function_call_output"]);
+    expect(items[1]).toEqual({ type: "reasoning", summary: [{ type: "summary_text", text: "Plan it" }], encrypted_content: "ENC1" });
+    expect(items[2]).toEqual({ type: "reasoning", summary: [], encrypted_content: "ENC2" });
+  });
+});
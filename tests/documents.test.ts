@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "zlib";
+import { extractPdfText, preprocessDocuments, documentText } from "../adapters/documents.js";
+import { toResponsesInput } from "../adapters/providers/codex-oauth.js";
+import { toGeminiParts } from "../adapters/providers/gemini-oauth.js";
+import type { AnthropicContentBlock, AnthropicRequest } from "../adapters/types.js";
+
+/** A minimal PDF whose single page draws the given content stream */
+function pdfWith(content: string, compress = true) {
+  const data = compress ? deflateSync(Buffer.from(content, "latin1")) : Buffer.from(content, "latin1");
+  const dict = compress ? `<< /Length ${data.length} /Filter /FlateDecode >>` : `<< /Length ${data.length} >>`;
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n1 0 obj << /Type /Page >> endobj\n4 0 obj ${dict}\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+  ]);
+}
+
+const CONTENT = "BT /F1 12 Tf 72 720 Td (Quarterly report) Tj 0 -14 Td [(Re) 30 (venue ) -300 (up \\(12%\\))] TJ ET";
+const PDF_B64 = pdfWith(CONTENT).toString("base64");
+const pdfDoc: AnthropicContentBlock = {
+  type: "document",
+  title: "report",
+  source: { type: "base64", media_type: "application/pdf", data: PDF_B64 },
+};
+
+describe("extractPdfText", () => {
+  it("reads Tj / TJ text from compressed and plain content streams", () => {
+    expect(extractPdfText(pdfWith(CONTENT))).toBe("Quarterly report\nRevenue up (12%)");
+    expect(extractPdfText(pdfWith("BT (plain) Tj ET", false))).toBe("plain");
+  });
+
+  it("returns nothing for streams without text", () => {
+    expect(extractPdfText(pdfWith("0 0 m 100 100 l S"))).toBe("");
+  });
+});
+
+describe("preprocessDocuments", () => {
+  it("replaces PDF, text and URL documents with text blocks", () => {
+    const body: AnthropicRequest = {
+      model: "glm-5",
+      messages: [{
+        role: "user",
+        content: [
+          pdfDoc,
+          { type: "document", source: { type: "text", media_type: "text/plain", data: "notes" } },
+          { type: "document", title: "spec", source: { type: "url", url: "https://example.com/spec.pdf" } },
+        ],
+      }],
+    };
+    preprocessDocuments(body);
+    expect(body.messages[0].content).toEqual([
+      { type: "text", text: "[Document: report]\nQuarterly report\nRevenue up (12%)" },
+      { type: "text", text: "[Document]\nnotes" },
+      { type: "text", text: "[Document: spec] https://example.com/spec.pdf" },
+    ]);
+  });
+});
+
+describe("document blocks per provider", () => {
+  it("responses: PDFs become input_file, text documents input_text", () => {
+    const [item] = toResponsesInput([{
+      role: "user",
+      content: [pdfDoc, { type: "document", source: { type: "url", url: "https://example.com/a.pdf" } }],
+    }]);
+    expect(item.content).toEqual([
+      { type: "input_file", filename: "report.pdf", file_data: `data:application/pdf;base64,${PDF_B64}` },
+      { type: "input_file", file_url: "https://example.com/a.pdf" },
+    ]);
+  });
+
+  it("gemini: PDFs become application/pdf inlineData", () => {
+    const textDoc: AnthropicContentBlock = { type: "document", source: { type: "text", data: "notes" } };
+    expect(toGeminiParts([pdfDoc, textDoc], [])).toEqual([
+      { inlineData: { mimeType: "application/pdf", data: PDF_B64 } },
+      { text: documentText(textDoc) },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { resolveFallbacks, shouldFallback } from "../adapters/fallback.js";
+
+const CODEX = { provider: "codex-oauth" as const, model: "gpt-5.3-codex", reasoning: "high" as const };
+
+describe("resolveFallbacks", () => {
+  it("prefers the exact route, then the requested name, then provider, then *", () => {
+    const config = {
+      chains: {
+        "codex-oauth:gpt-5.3-codex": ["gemini-oauth:gemini-3.1-pro-preview"],
+        codex: ["openrouter:openai/gpt-5"],
+        "codex-oauth": ["glm:glm-5"],
+        "*": ["anthropic:claude-sonnet-4-5"],
+      },
+    };
+    expect(resolveFallbacks(config, CODEX, "codex")[0]).toMatchObject({ provider: "gemini-oauth" });
+    expect(resolveFallbacks(config, { ...CODEX, model: "gpt-5.2" }, "codex")[0]).toMatchObject({ provider: "openrouter" });
+    expect(resolveFallbacks(config, { ...CODEX, model: "gpt-5.2" }, "cx52")[0]).toMatchObject({ provider: "glm" });
+    expect(resolveFallbacks(config, { provider: "openai", model: "gpt-5" })[0]).toMatchObject({ provider: "anthropic" });
+  });
+
+  it("resolves shortcuts, skips duplicates and the primary, and keeps the reasoning level", () => {
+    const config = { chains: { codex: ["gemini-flash", "codex-oauth:gpt-5.3-codex", "gemini-flash", "openrouter:z-ai/glm-5@low"] } };
+    expect(resolveFallbacks(config, CODEX, "codex")).toEqual([
+      { provider: "gemini-oauth", model: "gemini-3-flash-preview", reasoning: "high" },
+      { provider: "openrouter", model: "z-ai/glm-5", reasoning: "low" },
+    ]);
+  });
+
+  it("returns nothing without a matching chain", () => {
+    expect(resolveFallbacks(null, CODEX)).toEqual([]);
+    expect(resolveFallbacks({ chains: { glm: ["openai:gpt-5"] } }, CODEX, "codex")).toEqual([]);
+  });
+});
+
+describe("shouldFallback", () => {
+  const err = (statusCode?: number) => Object.assign(new Error("x"), statusCode ? { statusCode } : {});
+
+  it("falls back on rate limits, server and network errors but not bad requests", () => {
+    expect(shouldFallback(err(429), null)).toBe(true);
+    expect(shouldFallback(err(503), null)).toBe(true);
+    expect(shouldFallback(err(), null)).toBe(true);
+    expect(shouldFallback(err(400), null)).toBe(false);
+  });
+
+  it("honors a configured status list", () => {
+    expect(shouldFallback(err(503), { on: [429] })).toBe(false);
+    expect(shouldFallback(err(429), { on: [429] })).toBe(true);
+  });
+});
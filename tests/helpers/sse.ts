@@ -0,0 +1,64 @@
+// Shared fixtures for adapter tests: a reply that records the Anthropic events
+// written to it, and stubbed upstream SSE streams.
+
+import { vi } from "vitest";
+import type { FastifyReply } from "fastify";
+
+/**
+ * Module for `vi.mock("../adapters/openai-auth.js", ...)`: a single linked
+ * ChatGPT account, with overrides for tests that need more
+ */
+export function codexAuthStub(overrides: Record<string, unknown> = {}) {
+  return {
+    getCodexAccessToken: async () => "token",
+    getCodexAccountId: () => null,
+    getCodexPool: () => ({
+      pick: async (tried: Set<number>) => (tried.size ? null : 1),
+      markSuccess() {},
+      markRateLimited() {},
+    }),
+    ...overrides,
+  };
+}
+
+/** A reply that records every event the adapter writes, in order; like a real one, its headers count as sent once written to */
+export function recordingReply() {
+  const events: any[] = [];
+  const raw = {
+    headersSent: false,
+    setHeader() {},
+    write(chunk: string) {
+      raw.headersSent = true;
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("data: ")) events.push(JSON.parse(line.slice(6)));
+      }
+      return true;
+    },
+    end() {},
+  };
+  return { reply: { raw } as unknown as FastifyReply, events };
+}
+
+/** Upstream SSE response that hands out one chunk per read, calling `onRead` before each */
+export function sseResponse(chunks: unknown[], onRead?: () => void) {
+  let i = 0;
+  const body = new ReadableStream({
+    pull(controller) {
+      if (i === chunks.length) return controller.close();
+      onRead?.();
+      controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(chunks[i++])}\n\n`));
+    },
+  }, { highWaterMark: 0 });
+  return new Response(body, { status: 200 });
+}
+
+/**
+ * Stub fetch with an SSE response; returns the mock to inspect the request. With
+ * `events`, `seenBefore` holds how many had been written before each chunk was read.
+ */
+export function upstream(chunks: unknown[], events?: any[]) {
+  const seenBefore: number[] = [];
+  const fetchMock = vi.fn().mockResolvedValue(sseResponse(chunks, events && (() => seenBefore.push(events.length))));
+  vi.stubGlobal("fetch", fetchMock);
+  return { fetchMock, seenBefore };
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+// Google is linked as account 2 only; no ChatGPT account is
+const linked = vi.hoisted(() => ({ google: [2], codex: [] as number[] }));
+vi.mock("../adapters/google-auth.js", () => ({
+  listGoogleAccounts: async () => linked.google,
+}));
+vi.mock("../adapters/openai-auth.js", () => ({
+  listCodexAccounts: async () => linked.codex,
+}));
+
+const { listModels, getModel, paginateModels } = await import("../adapters/models.js");
+
+/** Only GLM has its keys set */
+function glmOnly() {
+  for (const key of ["OPENAI_API_KEY", "OPENROUTER_API_KEY", "GEMINI_API_KEY", "ANTHROPIC_UPSTREAM_URL", "ANTHROPIC_API_KEY", "GLM_API_KEY"]) {
+    vi.stubEnv(key, "");
+  }
+  vi.stubEnv("GLM_UPSTREAM_URL", "https://glm.example/v1");
+  vi.stubEnv("ZAI_API_KEY", "key");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("listModels", () => {
+  it("lists shortcuts, then catalog models with their aliases, marked by provider availability", async () => {
+    glmOnly();
+    const { data, providers } = await listModels();
+
+    const glm = data.find((m) => m.id === "glm")!;
+    expect(glm).toMatchObject({ provider: "glm", model: "glm-5", available: true, display_name: "glm → glm:glm-5" });
+    expect(glm.aliases).toBeUndefined();
+    expect(data.find((m) => m.id === "gemini")).toMatchObject({ provider: "gemini-oauth", available: true });
+    expect(data.find((m) => m.id === "codex")).toMatchObject({ provider: "codex-oauth", available: false });
+    expect(data.find((m) => m.id === "opus")).toMatchObject({ provider: "anthropic", available: false });
+
+    const catalog = data.find((m) => m.id === "glm:glm-5")!;
+    expect(catalog.aliases).toEqual(["g", "glm", "glm5"]);
+    // Shortcuts come before every catalog entry, and each provider:model appears once
+    expect(data.findIndex((m) => m.id.includes(":"))).toBeGreaterThan(data.findIndex((m) => m.id === "cx52"));
+    expect(data.filter((m) => m.id === "glm:glm-5")).toHaveLength(1);
+    // Provider defaults are listed even without a shortcut
+    expect(data.find((m) => m.id === "openai:gpt-5-mini")).toMatchObject({ available: false, aliases: [] });
+
+    expect(providers.find((p) => p.provider === "codex-oauth")).toMatchObject({ available: false, reason: expect.stringContaining("/codex/login") });
+    expect(providers.find((p) => p.provider === "openai")?.reason).toContain("OPENAI_API_KEY");
+  });
+
+  it("counts a pool provider as available when any account is linked", async () => {
+    glmOnly();
+    linked.codex = [3];
+    try {
+      const { data } = await listModels();
+      expect(data.find((m) => m.id === "codex")).toMatchObject({ available: true });
+    } finally {
+      linked.codex = [];
+    }
+  });
+});
+
+describe("getModel", () => {
+  it("finds shortcuts and catalog ids, case-insensitively", async () => {
+    glmOnly();
+    expect(await getModel("GLM")).toMatchObject({ id: "glm", provider: "glm" });
+    expect(await getModel("glm:glm-5")).toMatchObject({ aliases: ["g", "glm", "glm5"] });
+  });
+
+  it("resolves provider ids outside the catalog and rejects unknown providers", async () => {
+    glmOnly();
+    expect(await getModel("OpenRouter:qwen/qwen3-coder")).toEqual({
+      type: "model",
+      id: "openrouter:qwen/qwen3-coder",
+      display_name: "qwen/qwen3-coder",
+      created_at: new Date(0).toISOString(),
+      provider: "openrouter",
+      model: "qwen/qwen3-coder",
+      available: false,
+    });
+    expect(await getModel("nope:model")).toBeNull();
+    expect(await getModel("constructor:x")).toBeNull();
+    expect(await getModel("__proto__:x")).toBeNull();
+    expect(await getModel("glm:")).toBeNull();
+    expect(await getModel("unknown")).toBeNull();
+  });
+});
+
+describe("paginateModels", () => {
+  const models = ["a", "b", "c", "d", "e"].map((id) => ({ id }) as any);
+  const ids = (page: { data: { id: string }[] }) => page.data.map((m) => m.id);
+
+  it("returns the first page with cursors", () => {
+    const page = paginateModels(models, { limit: 2 });
+    expect(ids(page)).toEqual(["a", "b"]);
+    expect(page).toMatchObject({ has_more: true, first_id: "a", last_id: "b" });
+    expect(paginateModels(models, {})).toMatchObject({ has_more: false, last_id: "e" });
+  });
+
+  it("pages forward with after_id and back with before_id", () => {
+    expect(ids(paginateModels(models, { limit: 2, after_id: "b" }))).toEqual(["c", "d"]);
+    expect(paginateModels(models, { limit: 2, after_id: "c" })).toMatchObject({ has_more: false, first_id: "d", last_id: "e" });
+
+    const back = paginateModels(models, { limit: 2, before_id: "d" });
+    expect(ids(back)).toEqual(["b", "c"]);
+    expect(back.has_more).toBe(true);
+    expect(paginateModels(models, { limit: 2, before_id: "c" }).has_more).toBe(false);
+  });
+
+  it("returns an empty page for unknown cursors and clamps the limit", () => {
+    expect(paginateModels(models, { after_id: "zzz" })).toEqual({ data: [], has_more: false, first_id: null, last_id: null });
+    expect(ids(paginateModels(models, { before_id: "zzz" }))).toEqual([]);
+    expect(ids(paginateModels(models, { limit: 0 }))).toHaveLength(5);
+    expect(ids(paginateModels(models, { limit: -3 }))).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { FastifyReply } from "fastify";
+import { chatOpenRouter, openRouterSupportsImages } from "../adapters/providers/openrouter.js";
+
+const PNG = "iVBORw0KGgo=";
+
+function silentReply() {
+  const raw = { headersSent: false, setHeader() {}, write: () => true, end() {} };
+  return { raw } as unknown as FastifyReply;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("openrouter images", () => {
+  it("sends base64 and URL images as image_url parts in order", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const fetchMock = vi.fn().mockResolvedValue(new Response("data: [DONE]\n\n", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await chatOpenRouter(silentReply(), {
+      model: "x",
+      max_tokens: 100,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Compare" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: PNG } },
+            { type: "image", source: { type: "url", url: "https://example.com/b.jpg" } },
+          ],
+        },
+        { role: "assistant", content: [{ type: "text", text: "Sure" }] },
+      ],
+    }, "minimax/minimax-m2", "key");
+
+    const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(sent.messages[0].content).toEqual([
+      { type: "text", text: "Compare" },
+      { type: "image_url", image_url: { url: `data:image/png;base64,${PNG}` } },
+      { type: "image_url", image_url: { url: "https://example.com/b.jpg" } },
+    ]);
+    // Messages without images keep plain string content
+    expect(sent.messages[1].content).toBe("Sure");
+  });
+
+  it("reads image support from the model list and caches it", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(Response.json({
+      data: [
+        { id: "z-ai/glm-5", architecture: { input_modalities: ["text"] } },
+        { id: "google/gemini-2.5-flash", architecture: { input_modalities: ["text", "image", "file"] } },
+      ],
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await openRouterSupportsImages("z-ai/glm-5")).toBe(false);
+    expect(await openRouterSupportsImages("google/gemini-2.5-flash")).toBe(true);
+    expect(await openRouterSupportsImages("someone/unlisted")).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up on a model list that doesn't answer in time", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const timer = new AbortController();
+    vi.spyOn(AbortSignal, "timeout").mockReturnValue(timer.signal);
+    vi.stubGlobal("fetch", vi.fn((_url: string, init: RequestInit) =>
+      new Promise((_, reject) => init.signal!.addEventListener("abort", () => reject(init.signal!.reason)))
+    ));
+    // A fresh module, without the list cached by the test above
+    vi.resetModules();
+    const fresh = await import("../adapters/providers/openrouter.js");
+
+    const pending = fresh.openRouterSupportsImages("google/gemini-2.5-flash");
+    timer.abort(new DOMException("The operation timed out.", "TimeoutError"));
+    expect(await pending).toBeNull();
+  });
+});
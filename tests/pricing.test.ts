@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { findPrice, costOf, estimateCost, formatCost } from "../adapters/pricing.js";
+import type { PriceTable } from "../adapters/pricing.js";
+
+const TABLE: PriceTable = {
+  openai: {
+    "gpt-5*": { input: 1.25, output: 10, cacheRead: 0.125 },
+    "gpt-5-mini*": { input: 0.25, output: 2 },
+    "gpt-4o": { input: 2.5, output: 10 },
+  },
+  anthropic: {
+    "claude-sonnet-4*": { input: 3, output: 15 },
+  },
+};
+
+const usage = (inputTokens: number, outputTokens: number, cacheReadTokens = 0) => ({
+  inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens: 0, reasoningTokens: 0,
+});
+
+describe("findPrice", () => {
+  it("prefers exact keys, then the longest prefix", () => {
+    expect(findPrice(TABLE, { provider: "openai", model: "gpt-4o" })?.input).toBe(2.5);
+    expect(findPrice(TABLE, { provider: "openai", model: "gpt-5-mini-2025" })?.input).toBe(0.25);
+    expect(findPrice(TABLE, { provider: "openai", model: "GPT-5.1" })?.input).toBe(1.25);
+    expect(findPrice(TABLE, { provider: "openai", model: "gpt-4o-mini" })).toBeNull();
+  });
+
+  it("falls back to vendor pricing for OpenRouter ids", () => {
+    expect(findPrice(TABLE, { provider: "openrouter", model: "anthropic/claude-sonnet-4.5" })?.output).toBe(15);
+    expect(findPrice(TABLE, { provider: "openrouter", model: "openai/gpt-5.1" })?.input).toBe(1.25);
+    expect(findPrice(TABLE, { provider: "openrouter", model: "minimax/minimax-m2.5" })).toBeNull();
+  });
+});
+
+describe("cost", () => {
+  it("prices input, output and cache reads per million tokens", () => {
+    const price = TABLE.openai!["gpt-5*"];
+    expect(costOf(price, usage(1_000_000, 100_000, 2_000_000))).toBeCloseTo(1.25 + 1 + 0.25);
+  });
+
+  it("treats OAuth subscription routes as free but prefers upstream cost otherwise", async () => {
+    expect(await estimateCost({ provider: "codex-oauth", model: "gpt-5.3-codex" }, usage(5000, 500)))
+      .toEqual({ costUsd: 0, source: "subscription" });
+    expect(await estimateCost({ provider: "openrouter", model: "x/y" }, { ...usage(10, 10), costUsd: 0.0042 }))
+      .toEqual({ costUsd: 0.0042, source: "upstream" });
+  });
+
+  it("formats small amounts with significant digits", () => {
+    expect(formatCost(0)).toBe("$0");
+    expect(formatCost(0.000123)).toBe("$0.00012");
+    expect(formatCost(1.5)).toBe("$1.5000");
+  });
+});
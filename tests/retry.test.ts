@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fetchWithRetry, retryAfterMs, backoffMs, DEFAULT_RETRY_POLICY } from "../adapters/retry.js";
+
+const FAST = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1, maxDelayMs: 5 };
+
+function respond(status: number, headers: Record<string, string> = {}) {
+  return new Response(status === 200 ? "ok" : "err", { status, headers });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("retryAfterMs", () => {
+  it("reads retry-after-ms, seconds and HTTP dates", () => {
+    expect(retryAfterMs(new Headers({ "retry-after-ms": "250" }))).toBe(250);
+    expect(retryAfterMs(new Headers({ "retry-after": "3" }))).toBe(3000);
+    const now = Date.parse("2026-10-19T12:00:00Z");
+    expect(retryAfterMs(new Headers({ "retry-after": "Mon, 19 Oct 2026 12:00:10 GMT" }), now)).toBe(10_000);
+    expect(retryAfterMs(new Headers())).toBeNull();
+  });
+});
+
+describe("backoffMs", () => {
+  it("doubles per retry within the jitter band and respects the cap", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 300 };
+    const second = backoffMs(1, policy);
+    expect(second).toBeGreaterThanOrEqual(100);
+    expect(second).toBeLessThanOrEqual(200);
+    expect(backoffMs(5, policy)).toBeLessThanOrEqual(300);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  it("retries transient statuses and network errors, then returns the success", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(503))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(respond(200));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const resp = await fetchWithRetry("http://x", { method: "POST" }, "openrouter", FAST);
+    expect(resp.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns non-retryable and final responses as-is", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = vi.fn().mockResolvedValue(respond(400));
+    vi.stubGlobal("fetch", fetchMock);
+    expect((await fetchWithRetry("http://x", {}, "openai", FAST)).status).toBe(400);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset().mockResolvedValue(respond(529));
+    expect((await fetchWithRetry("http://x", {}, "openai", FAST)).status).toBe(529);
+    expect(fetchMock).toHaveBeenCalledTimes(FAST.maxRetries + 1);
+  });
+
+  it("does not wait out a Retry-After longer than the policy allows", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = vi.fn().mockResolvedValue(respond(429, { "retry-after": "120" }));
+    vi.stubGlobal("fetch", fetchMock);
+    const resp = await fetchWithRetry("http://x", {}, "glm", { ...FAST, retryOn: [429] });
+    expect(resp.status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
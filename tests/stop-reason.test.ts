@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { fromChatFinishReason, fromGeminiFinishReason, fromResponsesStatus, createStopSequenceMatcher } from "../adapters/stop-reason.js";
+import { toOpenAIRequestOptions } from "../adapters/map.js";
+
+describe("fromChatFinishReason", () => {
+  it("maps OpenAI finish reasons", () => {
+    expect(fromChatFinishReason("stop", false)).toBe("end_turn");
+    expect(fromChatFinishReason("length", false)).toBe("max_tokens");
+    expect(fromChatFinishReason("content_filter", false)).toBe("refusal");
+    expect(fromChatFinishReason("tool_calls", true)).toBe("tool_use");
+    expect(fromChatFinishReason(null, false)).toBe("end_turn");
+  });
+
+  it("keeps a truncation over a tool call and uses OpenRouter's native reason", () => {
+    expect(fromChatFinishReason("length", true)).toBe("max_tokens");
+    expect(fromChatFinishReason("stop", true)).toBe("tool_use");
+    expect(fromChatFinishReason("stop", false, "stop_sequence")).toBe("stop_sequence");
+    expect(fromChatFinishReason("stop", false, "refusal")).toBe("refusal");
+  });
+});
+
+describe("fromGeminiFinishReason", () => {
+  it("maps truncation and safety stops", () => {
+    expect(fromGeminiFinishReason("STOP", false)).toBe("end_turn");
+    expect(fromGeminiFinishReason("STOP", true)).toBe("tool_use");
+    expect(fromGeminiFinishReason("MAX_TOKENS", true)).toBe("max_tokens");
+    expect(fromGeminiFinishReason("SAFETY", false)).toBe("refusal");
+    expect(fromGeminiFinishReason("RECITATION", false)).toBe("refusal");
+    expect(fromGeminiFinishReason("MALFORMED_FUNCTION_CALL", false)).toBe("end_turn");
+  });
+});
+
+describe("fromResponsesStatus", () => {
+  it("maps incomplete reasons and falls back to pause_turn", () => {
+    expect(fromResponsesStatus("completed", null, false)).toBe("end_turn");
+    expect(fromResponsesStatus("completed", null, true)).toBe("tool_use");
+    expect(fromResponsesStatus("incomplete", "max_output_tokens", true)).toBe("max_tokens");
+    expect(fromResponsesStatus("incomplete", "content_filter", false)).toBe("refusal");
+    expect(fromResponsesStatus("incomplete", "something_new", false)).toBe("pause_turn");
+    // Stream ended without a final status: keep the old behavior
+    expect(fromResponsesStatus(null, null, false)).toBe("end_turn");
+  });
+});
+
+describe("createStopSequenceMatcher", () => {
+  it("cuts text at a stop sequence split across deltas", () => {
+    const m = createStopSequenceMatcher(["</answer>", "STOP"]);
+    expect(m.push("The answer is 4<")).toBe("The answer is 4");
+    expect(m.push("/ans")).toBe("");
+    expect(m.push("wer> and more")).toBe("");
+    expect(m.matched()).toBe("</answer>");
+    expect(m.push("ignored")).toBe("");
+  });
+
+  it("releases held text that turned out not to match", () => {
+    const m = createStopSequenceMatcher(["</answer>"]);
+    expect(m.push("a </an")).toBe("a ");
+    expect(m.push("d b")).toBe("</and b");
+    expect(m.push("</")).toBe("");
+    expect(m.flush()).toBe("</");
+    expect(m.matched()).toBeNull();
+  });
+
+  it("passes text straight through without sequences", () => {
+    const m = createStopSequenceMatcher(undefined);
+    expect(m.push("abc")).toBe("abc");
+    expect(m.flush()).toBe("");
+  });
+});
+
+describe("toOpenAIRequestOptions", () => {
+  const base = { model: "x", max_tokens: 10, messages: [] };
+
+  it("maps sampling params, stop sequences and a hashed user id", () => {
+    const opts = toOpenAIRequestOptions(
+      { ...base, top_p: 0.9, top_k: 40, stop_sequences: ["a", "b", "c", "d", "e"], metadata: { user_id: "user-123" } },
+      { topK: true },
+    );
+    expect(opts).toMatchObject({ top_p: 0.9, top_k: 40, stop: ["a", "b", "c", "d"] });
+    expect(opts.user).toMatch(/^[0-9a-f]{32}$/);
+    expect(opts.user).not.toContain("user-123");
+  });
+
+  it("leaves out what the request doesn't set", () => {
+    expect(toOpenAIRequestOptions({ ...base, top_k: 40 })).toEqual({});
+  });
+});
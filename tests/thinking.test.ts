@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { reasoningFromThinking, thinkingBudget, clampGemini25Budget } from "../adapters/map.js";
+import type { AnthropicRequest } from "../adapters/types.js";
+
+const req = (thinking?: AnthropicRequest["thinking"]): AnthropicRequest => ({ model: "x", messages: [], thinking });
+
+describe("reasoningFromThinking", () => {
+  it("maps Claude Code's think / think hard / ultrathink budgets to levels", () => {
+    expect(reasoningFromThinking(req({ type: "enabled", budget_tokens: 1024 }))).toBe("low");
+    expect(reasoningFromThinking(req({ type: "enabled", budget_tokens: 4000 }))).toBe("low");
+    expect(reasoningFromThinking(req({ type: "enabled", budget_tokens: 10000 }))).toBe("medium");
+    expect(reasoningFromThinking(req({ type: "enabled", budget_tokens: 31999 }))).toBe("high");
+    expect(reasoningFromThinking(req({ type: "enabled", budget_tokens: 64000 }))).toBe("xhigh");
+  });
+
+  it("gives no level for disabled or absent thinking", () => {
+    expect(reasoningFromThinking(req({ type: "disabled" }))).toBeUndefined();
+    expect(reasoningFromThinking(req())).toBeUndefined();
+  });
+});
+
+describe("thinkingBudget", () => {
+  it("returns the budget only for enabled thinking with a usable value", () => {
+    expect(thinkingBudget(req({ type: "enabled", budget_tokens: 10000 }))).toBe(10000);
+    expect(thinkingBudget(req({ type: "enabled", budget_tokens: 0 }))).toBeUndefined();
+    expect(thinkingBudget(req({ type: "disabled" }))).toBeUndefined();
+    expect(thinkingBudget(req())).toBeUndefined();
+  });
+});
+
+describe("clampGemini25Budget", () => {
+  it("keeps budgets within each Gemini 2.5 model's range", () => {
+    expect(clampGemini25Budget("gemini-2.5-flash", 10000)).toBe(10000);
+    expect(clampGemini25Budget("gemini-2.5-flash", 65536)).toBe(24576);
+    expect(clampGemini25Budget("gemini-2.5-flash-lite", 100)).toBe(512);
+    expect(clampGemini25Budget("gemini-2.5-pro", 64000)).toBe(32768);
+    expect(clampGemini25Budget("gemini-2.5-pro", 50)).toBe(128);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { countTokens, estimateTextTokens, imageDimensions, tokenFamily } from "../adapters/token-count.js";
+import { countTokensPassThrough } from "../adapters/providers/anthropic-pass.js";
+import type { AnthropicRequest } from "../adapters/types.js";
+
+// 1x1 PNG and a 2x3 GIF header, enough for dimension parsing
+const PNG_1x1 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+const GIF_2x3 = Buffer.from([
+  0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x02, 0x00, 0x03, 0x00,
+  ...new Array(20).fill(0),
+]).toString("base64");
+
+describe("estimateTextTokens", () => {
+  it("returns 0 for empty text", () => {
+    expect(estimateTextTokens("", 4)).toBe(0);
+  });
+
+  it("divides latin text by chars-per-token", () => {
+    expect(estimateTextTokens("a".repeat(400), 4)).toBe(100);
+  });
+
+  it("counts CJK characters as one token each", () => {
+    expect(estimateTextTokens("你好世界", 4)).toBe(4);
+  });
+});
+
+describe("imageDimensions", () => {
+  it("reads PNG dimensions", () => {
+    expect(imageDimensions(PNG_1x1)).toEqual({ width: 1, height: 1 });
+  });
+
+  it("reads GIF dimensions", () => {
+    expect(imageDimensions(GIF_2x3)).toEqual({ width: 2, height: 3 });
+  });
+
+  it("returns null for unknown data", () => {
+    expect(imageDimensions(Buffer.from("not an image at all, really").toString("base64"))).toBeNull();
+  });
+});
+
+describe("countTokens", () => {
+  const base: AnthropicRequest = {
+    model: "codex",
+    system: "You are a helpful assistant.",
+    messages: [
+      { role: "user", content: "Read the file please" },
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "toolu_1", name: "Read", input: { file_path: "/tmp/a.txt" } }],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "hello world" }],
+      },
+    ],
+  };
+
+  it("maps providers to tokenizer families", () => {
+    expect(tokenFamily("codex-oauth")).toBe("openai");
+    expect(tokenFamily("gemini-oauth")).toBe("gemini");
+    expect(tokenFamily("glm")).toBe("glm");
+  });
+
+  it("grows when tools are added", () => {
+    const without = countTokens(base, "codex-oauth");
+    const withTools = countTokens(
+      {
+        ...base,
+        tools: [{ name: "Read", description: "Read a file", input_schema: { type: "object", properties: {} } }],
+      },
+      "codex-oauth",
+    );
+    expect(withTools).toBeGreaterThan(without);
+  });
+
+  it("charges Gemini a flat 258 tokens for small images", () => {
+    const textOnly: AnthropicRequest = { model: "gemini", messages: [{ role: "user", content: [] }] };
+    const withImage: AnthropicRequest = {
+      model: "gemini",
+      messages: [
+        {
+          role: "user",
+          content: [{ type: "image", source: { type: "base64", media_type: "image/png", data: PNG_1x1 } }],
+        },
+      ],
+    };
+    expect(countTokens(withImage, "gemini-oauth") - countTokens(textOnly, "gemini-oauth")).toBe(258);
+  });
+
+  it("never returns less than 1", () => {
+    expect(countTokens({ model: "glm", messages: [] }, "glm")).toBe(1);
+  });
+});
+
+describe("countTokensPassThrough", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends count_tokens only the fields it accepts", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ input_tokens: 42 }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const body = {
+      model: "anthropic:claude-sonnet-4-5",
+      messages: [{ role: "user", content: "hi" }],
+      system: "Be brief.",
+      tools: [{ name: "Read", input_schema: { type: "object" } }],
+      tool_choice: { type: "auto" },
+      thinking: { type: "enabled", budget_tokens: 2048 },
+      max_tokens: 1000,
+      stream: true,
+      temperature: 0.5,
+      top_p: 0.9,
+      top_k: 40,
+      stop_sequences: ["END"],
+      metadata: { user_id: "u1" },
+      service_tier: "auto",
+    };
+
+    const counted = await countTokensPassThrough({ body, model: "claude-sonnet-4-5", baseUrl: "https://api.example/", headers: {} });
+
+    expect(counted).toBe(42);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.example/v1/messages/count_tokens");
+    expect(JSON.parse(init.body)).toEqual({
+      model: "claude-sonnet-4-5",
+      messages: body.messages,
+      system: body.system,
+      tools: body.tools,
+      tool_choice: body.tool_choice,
+      thinking: body.thinking,
+    });
+  });
+});
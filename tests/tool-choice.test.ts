@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { toOpenAIToolChoice, toResponsesToolChoice, toGeminiToolConfig, forcesToolUse, wantsNativeSearch } from "../adapters/map.js";
+import type { AnthropicRequest, AnthropicTool, AnthropicToolChoice } from "../adapters/types.js";
+
+const SEARCH: AnthropicTool = { type: "web_search_20250305", name: "web_search" };
+
+const req = (tool_choice?: AnthropicToolChoice, tools: AnthropicTool[] = [{ name: "Read" }, { name: "Write" }]): AnthropicRequest => ({
+  model: "x",
+  messages: [],
+  tools,
+  tool_choice,
+});
+
+describe("toOpenAIToolChoice", () => {
+  it("maps each choice and the parallel switch", () => {
+    expect(toOpenAIToolChoice(req({ type: "auto" }))).toEqual({ tool_choice: "auto" });
+    expect(toOpenAIToolChoice(req({ type: "any", disable_parallel_tool_use: true }))).toEqual({
+      tool_choice: "required",
+      parallel_tool_calls: false,
+    });
+    expect(toOpenAIToolChoice(req({ type: "tool", name: "Read" }))).toEqual({
+      tool_choice: { type: "function", function: { name: "Read" } },
+    });
+    expect(toOpenAIToolChoice(req({ type: "none" }))).toEqual({ tool_choice: "none" });
+  });
+
+  it("sends nothing without tools or a choice", () => {
+    expect(toOpenAIToolChoice(req(undefined))).toEqual({});
+    expect(toOpenAIToolChoice(req({ type: "any" }, []))).toEqual({});
+  });
+});
+
+describe("toResponsesToolChoice", () => {
+  it("uses the flat function form and keeps none without client tools", () => {
+    expect(toResponsesToolChoice(req({ type: "tool", name: "Write", disable_parallel_tool_use: true }))).toEqual({
+      tool_choice: { type: "function", name: "Write" },
+      parallel_tool_calls: false,
+    });
+    expect(toResponsesToolChoice(req({ type: "none" }, []))).toEqual({ tool_choice: "none" });
+    expect(toResponsesToolChoice(req({ type: "any" }, []))).toEqual({});
+  });
+});
+
+describe("toGeminiToolConfig", () => {
+  it("maps to functionCallingConfig modes", () => {
+    expect(toGeminiToolConfig(req({ type: "auto" }))).toEqual({ functionCallingConfig: { mode: "AUTO" } });
+    expect(toGeminiToolConfig(req({ type: "none" }))).toEqual({ functionCallingConfig: { mode: "NONE" } });
+    expect(toGeminiToolConfig(req({ type: "any" }))).toEqual({ functionCallingConfig: { mode: "ANY" } });
+    expect(toGeminiToolConfig(req({ type: "tool", name: "Read" }))).toEqual({
+      functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["Read"] },
+    });
+    expect(toGeminiToolConfig(req(undefined))).toBeUndefined();
+  });
+
+  it("only any / tool force a call", () => {
+    expect(forcesToolUse(req({ type: "any" }))).toBe(true);
+    expect(forcesToolUse(req({ type: "tool", name: "Read" }))).toBe(true);
+    expect(forcesToolUse(req({ type: "auto" }))).toBe(false);
+    expect(forcesToolUse(req({ type: "any" }, []))).toBe(false);
+  });
+
+  it("ignores server tools: they aren't client tools to choose from", () => {
+    expect(forcesToolUse(req({ type: "any" }, [SEARCH]))).toBe(false);
+    expect(toOpenAIToolChoice(req({ type: "auto" }, [SEARCH]))).toEqual({});
+  });
+});
+
+describe("wantsNativeSearch", () => {
+  it("is on with the web_search server tool unless a client tool is forced", () => {
+    expect(wantsNativeSearch(req({ type: "auto" }, [{ name: "Read" }, SEARCH]))).toBe(true);
+    expect(wantsNativeSearch(req({ type: "any" }, [{ name: "Read" }, SEARCH]))).toBe(false);
+    expect(wantsNativeSearch(req(undefined))).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { FastifyReply } from "fastify";
+import { resolveToolPolicy, applyToolPolicy, createRenamingReply } from "../adapters/tool-policy.js";
+import { createTappedReply } from "../adapters/aggregate.js";
+import { reportedUsage } from "../adapters/usage.js";
+import { chatOpenRouter } from "../adapters/providers/openrouter.js";
+import type { AnthropicRequest } from "../adapters/types.js";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const GEMINI = { provider: "gemini-oauth" as const, model: "gemini-3-flash-preview" };
+const GLM = { provider: "glm" as const, model: "glm-5" };
+
+const body = (): AnthropicRequest => ({
+  model: "x",
+  system: "You are Claude Code.",
+  messages: [
+    { role: "user", content: "read it" },
+    { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Read", input: { path: "a" } }] },
+  ],
+  tools: [
+    { name: "Read", description: "Read a file", input_schema: { type: "object" } },
+    { name: "WebSearch", description: "Search" },
+    { name: "WebFetch", description: "Fetch" },
+  ],
+});
+
+describe("resolveToolPolicy", () => {
+  it("turns native search on for Codex and Gemini only by default", () => {
+    expect(resolveToolPolicy(null, GEMINI)).toEqual({ nativeSearch: true });
+    expect(resolveToolPolicy(null, { provider: "codex-oauth", model: "gpt-5.3-codex" })).toEqual({ nativeSearch: true });
+    expect(resolveToolPolicy(null, GLM)).toEqual({});
+  });
+
+  it("layers *, provider, requested name and provider:model over the defaults", () => {
+    const config = {
+      policies: {
+        "*": { systemNote: "base", drop: ["NotebookEdit"] },
+        "gemini-oauth": { nativeSearch: false, systemNote: "provider" },
+        "gemini-flash": { systemNote: "shortcut" },
+        "gemini-oauth:gemini-3-flash-preview": { descriptions: { Read: "Open a file" } },
+      },
+    };
+    expect(resolveToolPolicy(config, GEMINI, "Gemini-Flash")).toEqual({
+      nativeSearch: false,
+      drop: ["NotebookEdit"],
+      systemNote: "shortcut",
+      descriptions: { Read: "Open a file" },
+    });
+    expect(resolveToolPolicy(config, GLM)).toEqual({ systemNote: "base", drop: ["NotebookEdit"] });
+  });
+});
+
+describe("applyToolPolicy", () => {
+  it("swaps WebSearch / WebFetch for native search and notes it in the system prompt", () => {
+    const b = body();
+    expect(applyToolPolicy(b, { nativeSearch: true })).toEqual({});
+    expect(b.tools!.map((t) => t.name)).toEqual(["Read", "web_search"]);
+    expect(b.tools![1]).toEqual({ type: "web_search_20250305", name: "web_search" });
+    expect(b.system).toMatch(/^You are Claude Code\.\n\nIMPORTANT: You have native server-side web search/);
+  });
+
+  it("leaves the request alone without a policy", () => {
+    const b = body();
+    applyToolPolicy(b, {});
+    expect(b).toEqual(body());
+  });
+
+  it("renames and re-describes tools, including earlier calls and tool_choice, and adds extras", () => {
+    const b = { ...body(), tool_choice: { type: "tool" as const, name: "Read" } };
+    const reverse = applyToolPolicy(b, {
+      drop: ["WebFetch"],
+      rename: { Read: "read_file" },
+      descriptions: { Read: "Read a file from disk" },
+      add: [{ name: "mcp__notes__save", description: "Save a note", input_schema: { type: "object" } }],
+      systemNote: "",
+    });
+
+    expect(reverse).toEqual({ read_file: "Read" });
+    expect(b.tools!.map((t) => [t.name, t.description])).toEqual([
+      ["read_file", "Read a file from disk"],
+      ["WebSearch", "Search"],
+      ["mcp__notes__save", "Save a note"],
+    ]);
+    expect((b.messages[1].content as any[])[0].name).toBe("read_file");
+    expect(b.tool_choice).toEqual({ type: "tool", name: "read_file" });
+    expect(b.system).toBe("You are Claude Code.");
+  });
+
+  it("falls back to auto when tool_choice names a dropped tool, and removes native search when off", () => {
+    const b: AnthropicRequest = {
+      model: "x",
+      messages: [],
+      tools: [{ name: "WebSearch" }, { type: "web_search_20250305", name: "web_search" }],
+      tool_choice: { type: "tool", name: "WebSearch", disable_parallel_tool_use: true },
+    };
+    applyToolPolicy(b, { nativeSearch: false, drop: ["WebSearch"] });
+    expect(b.tools).toEqual([]);
+    expect(b.tool_choice).toEqual({ type: "auto", disable_parallel_tool_use: true });
+  });
+});
+
+describe("createRenamingReply", () => {
+  it("gives tool_use blocks their client names back, across split writes", () => {
+    let written = "";
+    const raw = {
+      headersSent: false,
+      write(chunk: string) {
+        written += chunk;
+        return true;
+      },
+      end() {},
+    };
+    const reply = createRenamingReply({ raw } as unknown as FastifyReply, { read_file: "Read" });
+    const start = `event: content_block_start\ndata: ${JSON.stringify({
+      type: "content_block_start",
+      index: 0,
+      content_block: { type: "tool_use", id: "t2", name: "read_file", input: {} },
+    })}\n\n`;
+    const text = `data: ${JSON.stringify({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "read_file" } })}\n\n`;
+
+    reply.raw.write(start.slice(0, 40));
+    reply.raw.write(new TextEncoder().encode(start.slice(40) + text));
+    reply.raw.end();
+
+    expect(written).toContain('"name":"Read"');
+    expect(written).not.toContain('"name":"read_file"');
+    expect(written).toContain('"text":"read_file"');
+  });
+
+  it("keeps the adapter's upstream usage readable on the tapped reply the ledger uses", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const chunks = [
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: "c1", function: { name: "read_file", arguments: "{}" } }] } }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] },
+      { choices: [], usage: { prompt_tokens: 100, completion_tokens: 20, cost: 0.0042, completion_tokens_details: { reasoning_tokens: 5 } } },
+    ];
+    const sse = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n";
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(sse, { status: 200 })));
+    let written = "";
+    const raw = { headersSent: false, setHeader() {}, write: (c: string) => ((written += c), true), end() {} };
+    const tap = createTappedReply({ raw } as unknown as FastifyReply);
+
+    await chatOpenRouter(createRenamingReply(tap.reply, { read_file: "Read" }), { model: "x", messages: [{ role: "user", content: "hi" }] }, "m", "key");
+
+    expect(written).toContain('"name":"Read"');
+    expect(reportedUsage(tap.reply)).toMatchObject({ inputTokens: 100, outputTokens: 20, reasoningTokens: 5, costUsd: 0.0042 });
+  });
+});
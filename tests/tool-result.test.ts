@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { splitToolResult, toOpenAIToolMessages } from "../adapters/map.js";
+import { toResponsesInput } from "../adapters/providers/codex-oauth.js";
+import { toGeminiParts } from "../adapters/providers/gemini-oauth.js";
+import type { AnthropicMessage } from "../adapters/types.js";
+
+const PNG = "iVBORw0KGgo=";
+const screenshot = [
+  { type: "text", text: "Took a screenshot" },
+  { type: "image", source: { type: "base64", media_type: "image/png", data: PNG } },
+];
+
+describe("splitToolResult", () => {
+  it("keeps base64 out of the text and collects the images", () => {
+    const { text, images } = splitToolResult(screenshot);
+    expect(text).toBe("Took a screenshot\n[image 1]");
+    expect(text).not.toContain(PNG);
+    expect(images).toEqual([{ type: "base64", media_type: "image/png", data: PNG }]);
+  });
+
+  it("passes strings through and stringifies unknown parts", () => {
+    expect(splitToolResult("ok")).toEqual({ text: "ok", images: [] });
+    expect(splitToolResult([{ type: "search_result", title: "t" }]).text).toBe('{"type":"search_result","title":"t"}');
+  });
+});
+
+describe("tool results with images per format", () => {
+  it("openai: text-only tool message followed by a user message with the image", () => {
+    expect(toOpenAIToolMessages([{ tool_use_id: "call_1", content: screenshot }])).toEqual([
+      { role: "tool", tool_call_id: "call_1", content: "Took a screenshot\n[image 1]" },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Images from tool call call_1:" },
+          { type: "image_url", image_url: { url: `data:image/png;base64,${PNG}` } },
+        ],
+      },
+    ]);
+  });
+
+  it("responses: function_call_output then an input_image message", () => {
+    const messages: AnthropicMessage[] = [
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: screenshot }] },
+    ];
+    const items = toResponsesInput(messages);
+    expect(items[0]).toEqual({ type: "function_call_output", call_id: "call_1", output: "Took a screenshot\n[image 1]" });
+    expect(items[1]).toMatchObject({ type: "message", role: "user" });
+    expect(items[1].content[1]).toEqual({ type: "input_image", image_url: `data:image/png;base64,${PNG}` });
+  });
+
+  it("gemini: functionResponse followed by inlineData", () => {
+    const messages: AnthropicMessage[] = [
+      { role: "assistant", content: [{ type: "tool_use", id: "call_1", name: "Screenshot", input: {} }] },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: screenshot }] },
+    ];
+    expect(toGeminiParts(messages[1].content, messages)).toEqual([
+      { functionResponse: { name: "Screenshot", response: { content: "Took a screenshot\n[image 1]" } } },
+      { inlineData: { mimeType: "image/png", data: PNG } },
+    ]);
+  });
+});
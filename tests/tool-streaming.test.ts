@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { codexAuthStub, recordingReply, upstream } from "./helpers/sse.js";
+
+vi.mock("../adapters/openai-auth.js", () => codexAuthStub());
+
+const { chatOpenRouter } = await import("../adapters/providers/openrouter.js");
+const { chatCodexOAuth } = await import("../adapters/providers/codex-oauth.js");
+const { chatGeminiOAuth } = await import("../adapters/providers/gemini-oauth.js");
+
+const BODY = {
+  model: "x",
+  max_tokens: 100,
+  messages: [{ role: "user" as const, content: "write a file" }],
+  tools: [{ name: "Write", input_schema: { type: "object", properties: {} } }],
+};
+
+/** "start:tool_use@1" / "delta:input_json_delta@1" / "stop@1" summary of block events */
+function blockEvents(events: any[]) {
+  return events.flatMap((e) => {
+    if (e.type === "content_block_start") return [`start:${e.content_block.type}@${e.index}`];
+    if (e.type === "content_block_delta") return [`delta:${e.delta.type}@${e.index}`];
+    if (e.type === "content_block_stop") return [`stop@${e.index}`];
+    return [];
+  });
+}
+
+const stopReason = (events: any[]) => events.find((e) => e.type === "message_delta")?.delta.stop_reason;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("incremental tool_use streaming", () => {
+  it("openrouter: opens tool blocks as soon as the name arrives and forwards argument chunks", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    const tc = (index: number, fn: object, id?: string) => ({ choices: [{ delta: { tool_calls: [{ index, id, function: fn }] } }] });
+    const { seenBefore } = upstream([
+      { choices: [{ delta: { content: "Writing" } }] },
+      tc(0, { name: "Write", arguments: "" }, "call_a"),
+      tc(0, { arguments: '{"path":' }),
+      tc(0, { arguments: '"a.txt"}' }),
+      tc(1, { name: "Write", arguments: '{"path":"b.txt"}' }, "call_b"),
+      { choices: [{ delta: {}, finish_reason: "tool_calls" }] },
+    ], events);
+
+    await chatOpenRouter(reply, BODY, "openai/gpt-5", "key");
+
+    expect(blockEvents(events)).toEqual([
+      "start:text@0", "delta:text_delta@0", "stop@0",
+      "start:tool_use@1", "delta:input_json_delta@1", "delta:input_json_delta@1", "stop@1",
+      "start:tool_use@2", "delta:input_json_delta@2", "stop@2",
+    ]);
+    // The first tool block and its first argument chunk went out before its last chunk was read
+    const beforeLastArgs = events.slice(0, seenBefore[3]);
+    expect(beforeLastArgs.some((e) => e.content_block?.id === "call_a")).toBe(true);
+    expect(events.filter((e) => e.delta?.type === "input_json_delta" && e.index === 1).map((e) => e.delta.partial_json).join("")).toBe('{"path":"a.txt"}');
+    expect(stopReason(events)).toBe("tool_use");
+  });
+
+  it("codex: streams Responses function calls and keeps indices when text follows", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    upstream([
+      { type: "response.output_item.added", output_index: 0, item: { type: "function_call", call_id: "call_1", name: "Write", arguments: "" } },
+      { type: "response.function_call_arguments.delta", output_index: 0, delta: '{"path":' },
+      { type: "response.function_call_arguments.delta", output_index: 0, delta: '"a.txt"' },
+      // The done event has the full arguments; only the missing tail is sent
+      { type: "response.function_call_arguments.done", output_index: 0, arguments: '{"path":"a.txt"}' },
+      { type: "response.output_item.done", output_index: 0, item: { type: "function_call", call_id: "call_1", name: "Write", arguments: '{"path":"a.txt"}' } },
+      { type: "response.output_text.delta", output_index: 1, delta: "Done." },
+      { type: "response.completed", response: { usage: { input_tokens: 10, output_tokens: 5 } } },
+    ], events);
+
+    await chatCodexOAuth(reply, BODY, "gpt-5.3-codex");
+
+    expect(blockEvents(events)).toEqual([
+      "start:tool_use@0", "delta:input_json_delta@0", "delta:input_json_delta@0", "delta:input_json_delta@0", "stop@0",
+      "start:text@1", "delta:text_delta@1", "stop@1",
+    ]);
+    expect(events.filter((e) => e.index === 0 && e.delta).map((e) => e.delta.partial_json).join("")).toBe('{"path":"a.txt"}');
+    expect(stopReason(events)).toBe("tool_use");
+  });
+
+  it("openrouter: holds an interleaved parallel call until the open one is complete", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    const tc = (index: number, fn: object, id?: string) => ({ choices: [{ delta: { tool_calls: [{ index, id, function: fn }] } }] });
+    upstream([
+      tc(0, { name: "Write", arguments: '{"path":' }, "call_a"),
+      tc(1, { name: "Write", arguments: '{"path":' }, "call_b"),
+      tc(0, { arguments: '"a.txt"}' }),
+      tc(1, { arguments: '"b.txt"}' }),
+      { choices: [{ delta: {}, finish_reason: "tool_calls" }] },
+    ], events);
+
+    await chatOpenRouter(reply, BODY, "openai/gpt-5", "key");
+
+    const args = (index: number) => events.filter((e) => e.delta?.type === "input_json_delta" && e.index === index).map((e) => e.delta.partial_json).join("");
+    expect(events.filter((e) => e.type === "content_block_start").map((e) => e.content_block.id)).toEqual(["call_a", "call_b"]);
+    expect(args(0)).toBe('{"path":"a.txt"}');
+    expect(args(1)).toBe('{"path":"b.txt"}');
+    expect(blockEvents(events).indexOf("stop@0")).toBeLessThan(blockEvents(events).indexOf("start:tool_use@1"));
+  });
+
+  it("codex: keeps a Responses call's block open until its item is done while another call streams", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    const added = (output_index: number, call_id: string) => ({
+      type: "response.output_item.added",
+      output_index,
+      item: { type: "function_call", call_id, name: "Write", arguments: "" },
+    });
+    const delta = (output_index: number, d: string) => ({ type: "response.function_call_arguments.delta", output_index, delta: d });
+    const done = (output_index: number, call_id: string, args: string) => ({
+      type: "response.output_item.done",
+      output_index,
+      item: { type: "function_call", call_id, name: "Write", arguments: args },
+    });
+    upstream([
+      added(0, "call_a"),
+      added(1, "call_b"),
+      delta(0, '{"path":'),
+      delta(1, '{"path":"b.txt"}'),
+      delta(0, '"a.txt"}'),
+      done(1, "call_b", '{"path":"b.txt"}'),
+      done(0, "call_a", '{"path":"a.txt"}'),
+      { type: "response.completed", response: { usage: { input_tokens: 10, output_tokens: 5 } } },
+    ], events);
+
+    await chatCodexOAuth(reply, BODY, "gpt-5.3-codex");
+
+    const args = (index: number) => events.filter((e) => e.delta?.type === "input_json_delta" && e.index === index).map((e) => e.delta.partial_json).join("");
+    expect(blockEvents(events)).toEqual([
+      "start:tool_use@0", "delta:input_json_delta@0", "delta:input_json_delta@0", "stop@0",
+      "start:tool_use@1", "delta:input_json_delta@1", "stop@1",
+    ]);
+    expect(events.filter((e) => e.type === "content_block_start").map((e) => e.content_block.id)).toEqual(["call_a", "call_b"]);
+    expect(args(0)).toBe('{"path":"a.txt"}');
+    expect(args(1)).toBe('{"path":"b.txt"}');
+    expect(stopReason(events)).toBe("tool_use");
+  });
+
+  it("gemini: emits each function call when its part arrives, between text blocks", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    const parts = (...p: object[]) => ({ candidates: [{ content: { parts: p } }] });
+    const { seenBefore } = upstream([
+      parts({ text: "Writing" }),
+      parts({ functionCall: { name: "Write", args: { path: "a.txt" } } }),
+      parts({ text: "Done." }),
+    ], events);
+
+    await chatGeminiOAuth(reply, BODY, "gemini-2.5-flash", "key");
+
+    expect(blockEvents(events)).toEqual([
+      "start:text@0", "delta:text_delta@0", "stop@0",
+      "start:tool_use@1", "delta:input_json_delta@1", "stop@1",
+      "start:text@2", "delta:text_delta@2", "stop@2",
+    ]);
+    expect(events.slice(0, seenBefore[2]).some((e) => e.content_block?.type === "tool_use")).toBe(true);
+    expect(stopReason(events)).toBe("tool_use");
+  });
+});
+
+describe("stop_sequences", () => {
+  it("gemini: stops the text at the sequence and reports it", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    const parts = (...p: object[]) => ({ candidates: [{ content: { parts: p } }] });
+    upstream([parts({ text: "one two </do" }), parts({ text: "ne> three" }), parts({ text: "four" })], events);
+
+    await chatGeminiOAuth(reply, { ...BODY, tools: undefined, stop_sequences: ["</done>"] }, "gemini-2.5-flash", "key");
+
+    const text = events.filter((e) => e.delta?.type === "text_delta").map((e) => e.delta.text).join("");
+    expect(text).toBe("one two ");
+    const delta = events.find((e) => e.type === "message_delta").delta;
+    expect(delta).toEqual({ stop_reason: "stop_sequence", stop_sequence: "</done>" });
+  });
+
+  it("gemini: reports the sequence when the upstream ends with STOP right after it, keeping the usage", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    const usageMetadata = { promptTokenCount: 12, candidatesTokenCount: 7 };
+    const { fetchMock } = upstream([
+      { candidates: [{ content: { parts: [{ text: "answer" }] } }], usageMetadata },
+      { candidates: [{ content: { parts: [{ text: " END" }] }, finishReason: "STOP" }], usageMetadata },
+    ], events);
+
+    await chatGeminiOAuth(reply, { ...BODY, tools: undefined, stop_sequences: ["END", "STOP"] }, "gemini-2.5-flash", "key");
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).generationConfig.stopSequences).toEqual(["END", "STOP"]);
+    const message = events.find((e) => e.type === "message_delta");
+    expect(message.delta).toEqual({ stop_reason: "stop_sequence", stop_sequence: "END" });
+    expect(message.usage.output_tokens).toBe(7);
+  });
+
+  it("openrouter: sends the sequences upstream and stops reading once one matches", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { reply, events } = recordingReply();
+    const delta = (content: string) => ({ choices: [{ index: 0, delta: { content } }] });
+    const { fetchMock, seenBefore } = upstream([
+      delta("one END two"),
+      delta(" three"),
+      { choices: [{ index: 0, delta: {}, finish_reason: "length" }] },
+      { choices: [], usage: { prompt_tokens: 30, completion_tokens: 40 } },
+    ], events);
+
+    await chatOpenRouter(reply, { ...BODY, tools: undefined, stop_sequences: ["END"] }, "m", "key");
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).stop).toEqual(["END"]);
+    expect(seenBefore).toHaveLength(1);
+    const text = events.filter((e) => e.delta?.type === "text_delta").map((e) => e.delta.text).join("");
+    expect(text).toBe("one ");
+    const message = events.find((e) => e.type === "message_delta");
+    expect(message.delta).toEqual({ stop_reason: "stop_sequence", stop_sequence: "END" });
+  });
+});
+
+describe("gemini thought signatures", () => {
+  it("replays the signature of each function call and thought instead of the skip value", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { toGeminiParts } = await import("../adapters/providers/gemini-oauth.js");
+    const { reply, events } = recordingReply();
+    const parts = (...p: object[]) => ({ candidates: [{ content: { parts: p } }] });
+    upstream([
+      parts({ text: "Plan", thought: true, thoughtSignature: "SIG_T" }),
+      parts({ functionCall: { name: "Write", args: { path: "a.txt" } }, thoughtSignature: "SIG_A" }),
+      parts({ functionCall: { name: "Write", args: { path: "b.txt" } } }),
+    ], events);
+
+    await chatGeminiOAuth(reply, BODY, "gemini-3-pro-preview", "key");
+
+    const signature = events.find((e) => e.delta?.type === "signature_delta").delta.signature;
+    const [first, second] = events.filter((e) => e.content_block?.type === "tool_use").map((e) => e.content_block.id);
+    const replayed = toGeminiParts([
+      { type: "thinking", thinking: "Plan", signature },
+      { type: "thinking", thinking: "other provider", signature: "EqQBCkgIARAB" },
+      { type: "tool_use", id: first, name: "Write", input: { path: "a.txt" } },
+      { type: "tool_use", id: second, name: "Write", input: { path: "b.txt" } },
+    ], []);
+
+    expect(replayed).toEqual([
+      { text: "Plan", thought: true, thoughtSignature: "SIG_T" },
+      { functionCall: { name: "Write", args: { path: "a.txt" } }, thoughtSignature: "SIG_A" },
+      { functionCall: { name: "Write", args: { path: "b.txt" } }, thoughtSignature: "skip_thought_signature_validator" },
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { rm, appendFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { appendUsage, readUsage, summarizeUsage, periodStart, dayKey } from "../bin/lib/usage-ledger.js";
+
+const TEST_DIR = join(tmpdir(), `ccx-usage-test-${process.pid}`);
+const TEST_FILE = join(TEST_DIR, "usage.jsonl");
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("usage ledger", () => {
+  it("appends entries and reads them back within a window", async () => {
+    await appendUsage({ ts: "2026-10-01T10:00:00.000Z", provider: "glm", status: "ok" }, TEST_FILE);
+    await appendUsage({ ts: "2026-10-05T10:00:00.000Z", provider: "codex-oauth", status: "ok" }, TEST_FILE);
+    await appendFile(TEST_FILE, "not json\n");
+
+    const all = await readUsage({}, TEST_FILE);
+    expect(all.map((e: any) => e.provider)).toEqual(["glm", "codex-oauth"]);
+
+    const recent = await readUsage({ since: "2026-10-03T00:00:00.000Z" }, TEST_FILE);
+    expect(recent.map((e: any) => e.provider)).toEqual(["codex-oauth"]);
+  });
+
+  it("returns an empty list when the ledger does not exist", async () => {
+    expect(await readUsage({}, TEST_FILE)).toEqual([]);
+  });
+
+  it("summarizes by provider with totals and average latency", () => {
+    const entries = [
+      { ts: "2026-10-05T10:00:00Z", provider: "glm", status: "ok", inputTokens: 100, outputTokens: 10, latencyMs: 1000 },
+      { ts: "2026-10-05T11:00:00Z", provider: "glm", status: "error", inputTokens: 0, outputTokens: 0, latencyMs: 200 },
+      { ts: "2026-10-05T12:00:00Z", provider: "codex-oauth", status: "ok", inputTokens: 5000, outputTokens: 500, cacheReadTokens: 4000, latencyMs: 3000 },
+    ];
+    const { rows, totals } = summarizeUsage(entries, "provider");
+
+    expect(rows.map((r: any) => r.key)).toEqual(["codex-oauth", "glm"]);
+    expect(rows[1]).toMatchObject({ requests: 2, errors: 1, inputTokens: 100, avgLatencyMs: 600 });
+    expect(totals).toMatchObject({ requests: 3, errors: 1, inputTokens: 5100, outputTokens: 510, cacheReadTokens: 4000 });
+  });
+
+  it("groups weeks from Monday", () => {
+    // 2026-10-18 is a Sunday, 2026-10-19 a Monday
+    expect(dayKey(periodStart("week", new Date(2026, 9, 18, 15)))).toBe("2026-10-12");
+    expect(dayKey(periodStart("week", new Date(2026, 9, 19, 1)))).toBe("2026-10-19");
+
+    const entries = [
+      { ts: new Date(2026, 9, 18, 15).toISOString(), status: "ok" },
+      { ts: new Date(2026, 9, 19, 9).toISOString(), status: "ok" },
+      { ts: new Date(2026, 9, 20, 9).toISOString(), status: "ok" },
+    ];
+    const { rows } = summarizeUsage(entries, "week");
+    expect(rows.map((r: any) => [r.key, r.requests])).toEqual([
+      ["week of 2026-10-12", 1],
+      ["week of 2026-10-19", 2],
+    ]);
+  });
+
+  it("rejects unknown groupings", () => {
+    expect(() => summarizeUsage([], "hour")).toThrow("Unknown group");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { fromChatCompletionsUsage, fromResponsesUsage, fromGeminiUsage } from "../adapters/usage.js";
+
+const EMPTY = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, reasoningTokens: 0 };
+
+describe("fromChatCompletionsUsage", () => {
+  it.each([
+    ["no usage", undefined, EMPTY],
+    ["an empty object", {}, EMPTY],
+    ["plain counts", { prompt_tokens: 100, completion_tokens: 20 }, { ...EMPTY, inputTokens: 100, outputTokens: 20 }],
+    [
+      "cached, cache-write and reasoning tokens with OpenRouter's cost",
+      {
+        prompt_tokens: 100,
+        completion_tokens: 20,
+        prompt_tokens_details: { cached_tokens: 60, cache_write_tokens: 10 },
+        completion_tokens_details: { reasoning_tokens: 5 },
+        cost: 0.0042,
+      },
+      { inputTokens: 40, outputTokens: 20, cacheReadTokens: 60, cacheWriteTokens: 10, reasoningTokens: 5, costUsd: 0.0042 },
+    ],
+    ["more cached than prompt tokens", { prompt_tokens: 10, prompt_tokens_details: { cached_tokens: 30 } }, { ...EMPTY, cacheReadTokens: 30 }],
+    ["non-numeric fields and cost", { prompt_tokens: "12", completion_tokens: null, cost: "0.1" }, EMPTY],
+  ])("%s", (_, usage, expected) => {
+    expect(fromChatCompletionsUsage(usage)).toEqual(expected);
+  });
+});
+
+describe("fromResponsesUsage", () => {
+  it.each([
+    ["no usage", undefined, EMPTY],
+    ["plain counts", { input_tokens: 50, output_tokens: 7 }, { ...EMPTY, inputTokens: 50, outputTokens: 7 }],
+    [
+      "cached and reasoning tokens",
+      { input_tokens: 50, output_tokens: 7, input_tokens_details: { cached_tokens: 20 }, output_tokens_details: { reasoning_tokens: 3 } },
+      { ...EMPTY, inputTokens: 30, outputTokens: 7, cacheReadTokens: 20, reasoningTokens: 3 },
+    ],
+    ["details without counts", { input_tokens_details: {}, output_tokens_details: {} }, EMPTY],
+  ])("%s", (_, usage, expected) => {
+    expect(fromResponsesUsage(usage)).toEqual(expected);
+  });
+});
+
+describe("fromGeminiUsage", () => {
+  it.each([
+    ["no usage metadata", undefined, EMPTY],
+    ["plain counts", { promptTokenCount: 80, candidatesTokenCount: 12 }, { ...EMPTY, inputTokens: 80, outputTokens: 12 }],
+    [
+      "thoughts folded into output, cached content subtracted from input",
+      { promptTokenCount: 80, candidatesTokenCount: 12, thoughtsTokenCount: 30, cachedContentTokenCount: 50 },
+      { ...EMPTY, inputTokens: 30, outputTokens: 42, cacheReadTokens: 50, reasoningTokens: 30 },
+    ],
+    [
+      "tool-use prompt tokens counted as input",
+      { promptTokenCount: 80, toolUsePromptTokenCount: 15, candidatesTokenCount: 12 },
+      { ...EMPTY, inputTokens: 95, outputTokens: 12 },
+    ],
+    ["thoughts without candidates", { promptTokenCount: 5, thoughtsTokenCount: 9 }, { ...EMPTY, inputTokens: 5, outputTokens: 9, reasoningTokens: 9 }],
+  ])("%s", (_, usage, expected) => {
+    expect(fromGeminiUsage(usage)).toEqual(expected);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { AnthropicRequest } from "../adapters/types.js";
+
+// Keep descriptions in memory instead of ~/.claude-proxy/vision-cache
+const store = new Map<string, string>();
+vi.mock("../bin/lib/vision-cache.js", () => ({
+  visionCacheKey: (source: any, model: string) => `${model}|${source.data ?? source.url}`,
+  getCachedDescription: async (key: string) => store.get(key) ?? null,
+  putCachedDescription: async (key: string, { description }: { description: string }) => void store.set(key, description),
+}));
+
+const { resolveVisionTarget, openAICompatibleBackend, preprocessImages, hasImageBlocks } = await import(
+  "../adapters/vision-preprocess.js"
+);
+
+const png = (data: string) => ({ type: "image" as const, source: { type: "base64" as const, media_type: "image/png", data } });
+
+afterEach(() => {
+  store.clear();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("resolveVisionTarget", () => {
+  it("routes VISION_MODEL through a provider prefix, or OpenRouter without one", () => {
+    expect(resolveVisionTarget({ VISION_MODEL: "gemini-oauth:gemini-3-flash-preview" }, false)).toEqual({
+      kind: "route",
+      route: { provider: "gemini-oauth", model: "gemini-3-flash-preview" },
+    });
+    expect(resolveVisionTarget({ VISION_MODEL: "glm:glm-4.5v" }, false)).toMatchObject({ route: { provider: "glm" } });
+    expect(resolveVisionTarget({ VISION_MODEL: "qwen/qwen2.5-vl-72b-instruct:free" }, false)).toEqual({
+      kind: "route",
+      route: { provider: "openrouter", model: "qwen/qwen2.5-vl-72b-instruct:free" },
+    });
+  });
+
+  it("prefers a local server, then falls back to whichever provider is set up", () => {
+    expect(resolveVisionTarget({ VISION_BASE_URL: "http://localhost:1234/v1", VISION_MODEL: "llava" }, true)).toEqual({
+      kind: "local",
+      baseUrl: "http://localhost:1234/v1",
+      model: "llava",
+      apiKey: undefined,
+    });
+    expect(resolveVisionTarget({ OPENROUTER_API_KEY: "k", GEMINI_API_KEY: "g" }, true)).toMatchObject({ route: { provider: "openrouter" } });
+    expect(resolveVisionTarget({ GEMINI_API_KEY: "g" }, true)).toMatchObject({ route: { provider: "gemini" } });
+    expect(resolveVisionTarget({}, true)).toMatchObject({ route: { provider: "gemini-oauth" } });
+    expect(resolveVisionTarget({}, false)).toBeNull();
+  });
+});
+
+describe("openAICompatibleBackend", () => {
+  it("posts the image as an image_url part to /chat/completions", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: " A red button " } }] }), { status: 200 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const backend = openAICompatibleBackend({ baseUrl: "http://localhost:1234/v1/", model: "llava", apiKey: "secret" });
+
+    expect(await backend.describe(png("AAAA").source, "Describe")).toBe("A red button");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:1234/v1/chat/completions");
+    expect(init.headers.Authorization).toBe("Bearer secret");
+    expect(JSON.parse(init.body).messages[0].content[1]).toEqual({
+      type: "image_url",
+      image_url: { url: "data:image/png;base64,AAAA" },
+    });
+  });
+});
+
+describe("preprocessImages", () => {
+  it("describes message and tool_result images with the backend and caches the results", async () => {
+    const describe = vi.fn(async (source: any) => `image ${source.data}`);
+    const backend = { name: "gemini-oauth:gemini-2.5-flash", describe };
+    const body = (): AnthropicRequest => ({
+      model: "x",
+      messages: [
+        { role: "user", content: [{ type: "text", text: "look" }, png("one")] },
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: [png("two")] }] },
+      ],
+    });
+
+    const first = body();
+    expect(hasImageBlocks(first)).toBe(true);
+    await preprocessImages(first, backend);
+    expect(hasImageBlocks(first)).toBe(false);
+    expect((first.messages[0].content as any[])[1]).toEqual({ type: "text", text: "[Image Description: image one]" });
+    expect((first.messages[1].content as any[])[0].content[0].text).toBe("[Image Description: image two]");
+
+    await preprocessImages(body(), backend);
+    expect(describe).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't cache failed descriptions and leaves images alone without a backend", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const backend = { name: "openrouter:m", describe: vi.fn().mockRejectedValue(new Error("503")) };
+    const body: AnthropicRequest = { model: "x", messages: [{ role: "user", content: [png("one")] }] };
+
+    await preprocessImages(body, backend);
+    expect((body.messages[0].content as any[])[0].text).toBe("[Image Description: [Image description unavailable]]");
+    expect(store.size).toBe(0);
+
+    const untouched: AnthropicRequest = { model: "x", messages: [{ role: "user", content: [png("one")] }] };
+    await preprocessImages(untouched, null);
+    expect(hasImageBlocks(untouched)).toBe(true);
+  });
+});
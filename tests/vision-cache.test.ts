@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { rm, utimes } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  visionCacheKey,
+  getCachedDescription,
+  putCachedDescription,
+  pruneCache,
+  cacheStats,
+  clearCache,
+} from "../bin/lib/vision-cache.js";
+
+const TEST_DIR = join(tmpdir(), `ccx-vision-cache-test-${process.pid}`);
+const LIMITS = { maxEntries: 100, maxBytes: 1024 * 1024 };
+const image = (data: string) => ({ type: "base64", media_type: "image/png", data });
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("vision cache", () => {
+  it("keys on the full image plus model and prompt", () => {
+    const header = "A".repeat(4096);
+    const a = visionCacheKey(image(header + "B"), "m", "p");
+    expect(visionCacheKey(image(header + "C"), "m", "p")).not.toBe(a);
+    expect(visionCacheKey(image(header + "B"), "other", "p")).not.toBe(a);
+    expect(visionCacheKey(image(header + "B"), "m", "other")).not.toBe(a);
+    expect(visionCacheKey(image(header + "B"), "m", "p")).toBe(a);
+  });
+
+  it("stores descriptions on disk and reads them back", async () => {
+    const key = visionCacheKey(image("abc"), "m", "p");
+    expect(await getCachedDescription(key, TEST_DIR)).toBeNull();
+    await putCachedDescription(key, { description: "a cat", model: "m" }, { dir: TEST_DIR, limits: LIMITS });
+    expect(await getCachedDescription(key, TEST_DIR)).toBe("a cat");
+    expect(await cacheStats(TEST_DIR)).toMatchObject({ entries: 1, byModel: { m: 1 } });
+  });
+
+  it("evicts the least recently used entries over the limits", async () => {
+    const keys = ["one", "two", "three"].map((d) => visionCacheKey(image(d), "m", "p"));
+    for (const [i, key] of keys.entries()) {
+      await putCachedDescription(key, { description: `d${i}`, model: "m" }, { dir: TEST_DIR, limits: LIMITS });
+      const t = new Date(Date.now() - (10 - i) * 60_000);
+      await utimes(join(TEST_DIR, `${key}.json`), t, t);
+    }
+    // Reading "one" makes it the most recently used
+    await getCachedDescription(keys[0], TEST_DIR);
+
+    expect(await pruneCache({ dir: TEST_DIR, maxEntries: 2 })).toBe(1);
+    expect(await getCachedDescription(keys[1], TEST_DIR)).toBeNull();
+    expect(await getCachedDescription(keys[0], TEST_DIR)).toBe("d0");
+
+    expect(await clearCache(TEST_DIR)).toBe(2);
+    expect((await cacheStats(TEST_DIR)).entries).toBe(0);
+  });
+});